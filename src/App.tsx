@@ -2,36 +2,48 @@
 import React, { useMemo } from 'react';
 import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 import { ToastContainer } from 'react-toastify';
-import { Navbar, Nav, Container } from 'react-bootstrap';
+import { Navbar, Nav, NavDropdown, Container, Badge } from 'react-bootstrap';
 import PrivateRoute from './components/PrivateRoute';
+import SessionExpiryRedirect from './components/SessionExpiryRedirect';
+import IdleTimeout from './components/IdleTimeout';
+import PendingApprovalsNavLink from './components/admin/PendingApprovalsNavLink';
 import Register from './pages/auth/Register';
 import Login from './pages/auth/Login';
+import ForgotPassword from './pages/auth/ForgotPassword';
+import ResetPassword from './pages/auth/ResetPassword';
+import AcceptInvite from './pages/auth/AcceptInvite';
 import DashboardAdmin from './pages/Dashboards/DashboardAdmin';
 import DashboardEmployee from './pages/Dashboards/DashboardEmployee';
 import Home from './pages/Home';
+import SecuritySettings from './pages/settings/SecuritySettings';
+import ProfileSettings from './pages/settings/ProfileSettings';
+import Rewards from './pages/rewards/Rewards';
+import RewardsAdmin from './pages/rewards/RewardsAdmin';
+import TransactionDetailPage from './pages/transactions/TransactionDetailPage';
 import { useAppSelector } from './hooks';
+import { getConfig, isProduction } from './config';
+import { getDashboardPath } from './utils/routes';
 import 'react-toastify/dist/ReactToastify.css';
 
 const App: React.FC = () => {
   const { isAuthenticated, user } = useAppSelector((state) => state.auth);
 
-  const dashboardPath = useMemo(() => {
-    if (!user) return '/';
-    switch (user.role) {
-      case 'ADMIN':
-        return '/dashboard/admin';
-      case 'EMPLOYEE':
-        return '/dashboard/employee';
-      default:
-        return '/';
-    }
-  }, [user]);
+  const dashboardPath = useMemo(() => getDashboardPath(user?.role), [user]);
+
+  const { environment, apiUrl, publicRegistration } = getConfig();
 
   return (
     <Router>
+      <SessionExpiryRedirect />
+      <IdleTimeout />
       <Navbar bg="dark" variant="dark" expand="lg">
         <Container>
           <Navbar.Brand as={Link} to="/">School Staff Management</Navbar.Brand>
+          {!isProduction() && (
+            <Badge bg="warning" text="dark" className="text-uppercase me-auto" title={`API: ${apiUrl}`}>
+              {environment}
+            </Badge>
+          )}
           <Navbar.Toggle aria-controls="main-navbar-nav" />
           <Navbar.Collapse id="main-navbar-nav">
             <Nav className="ms-auto">
@@ -39,10 +51,22 @@ const App: React.FC = () => {
               {!isAuthenticated ? (
                 <>
                   <Nav.Link as={Link} to="/login">Login</Nav.Link>
-                  <Nav.Link as={Link} to="/register">Register</Nav.Link>
+                  {publicRegistration && (
+                    <Nav.Link as={Link} to="/register">Register</Nav.Link>
+                  )}
                 </>
               ) : (
-                <Nav.Link as={Link} to={dashboardPath}>Dashboard</Nav.Link>
+                <>
+                  <Nav.Link as={Link} to={dashboardPath}>Dashboard</Nav.Link>
+                  {user?.role === 'ADMIN' && <PendingApprovalsNavLink />}
+                  <Nav.Link as={Link} to={user?.role === 'ADMIN' ? '/admin/rewards' : '/rewards'}>Rewards</Nav.Link>
+                  <NavDropdown title="Settings" id="settings-nav-dropdown">
+                    <NavDropdown.Item as={Link} to="/settings/profile">Profile</NavDropdown.Item>
+                    {user?.role === 'ADMIN' && (
+                      <NavDropdown.Item as={Link} to="/settings/security">Security</NavDropdown.Item>
+                    )}
+                  </NavDropdown>
+                </>
               )}
               <Nav.Link as={Link} to="/about">About</Nav.Link>
               <Nav.Link as={Link} to="/contact">Contact</Nav.Link>
@@ -56,6 +80,9 @@ const App: React.FC = () => {
         <Route path="/" element={<Home />} />
         <Route path="/login" element={<Login />} />
         <Route path="/register" element={<Register />} />
+        <Route path="/forgot-password" element={<ForgotPassword />} />
+        <Route path="/reset-password/:token" element={<ResetPassword />} />
+        <Route path="/accept-invite/:code" element={<AcceptInvite />} />
         <Route path="/about" element={
           <Container className="py-5">
             <h2>About Our Platform</h2>
@@ -71,15 +98,40 @@ const App: React.FC = () => {
 
         {/* Protected Routes */}
         <Route path="/dashboard/admin" element={
-          <PrivateRoute requiredRole="ADMIN">
+          <PrivateRoute allowedRoles={['ADMIN']}>
             <DashboardAdmin />
           </PrivateRoute>
         } />
         <Route path="/dashboard/employee" element={
-          <PrivateRoute requiredRole="EMPLOYEE">
+          <PrivateRoute allowedRoles={['EMPLOYEE']}>
             <DashboardEmployee />
           </PrivateRoute>
         } />
+        <Route path="/transactions/:id" element={
+          <PrivateRoute allowedRoles={['ADMIN', 'EMPLOYEE']}>
+            <TransactionDetailPage />
+          </PrivateRoute>
+        } />
+        <Route path="/rewards" element={
+          <PrivateRoute allowedRoles={['EMPLOYEE']}>
+            <Rewards />
+          </PrivateRoute>
+        } />
+        <Route path="/admin/rewards" element={
+          <PrivateRoute allowedRoles={['ADMIN']}>
+            <RewardsAdmin />
+          </PrivateRoute>
+        } />
+        <Route path="/settings/profile" element={
+          <PrivateRoute allowedRoles={['ADMIN', 'EMPLOYEE']}>
+            <ProfileSettings />
+          </PrivateRoute>
+        } />
+        <Route path="/settings/security" element={
+          <PrivateRoute allowedRoles={['ADMIN']}>
+            <SecuritySettings />
+          </PrivateRoute>
+        } />
 
         {/* Fallback Routes */}
         <Route path="/unauthorized" element={
@@ -0,0 +1,35 @@
+// src/components/AuthGate.tsx
+import React, { useEffect, useRef } from 'react';
+import { Spinner } from 'react-bootstrap';
+import { useAppDispatch, useAppSelector } from '../hooks';
+import { getMe } from '../features/auth/authSlice';
+
+interface Props {
+  children: React.ReactNode;
+}
+
+// Verifies a stored token with getMe before anything that depends on the user renders
+const AuthGate: React.FC<Props> = ({ children }) => {
+  const { initialized, token } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (initialized || !token || requested.current) return;
+    requested.current = true;
+    dispatch(getMe());
+  }, [initialized, token, dispatch]);
+
+  if (!initialized) {
+    return (
+      <div className="d-flex flex-column justify-content-center align-items-center min-vh-100">
+        <Spinner animation="border" variant="primary" />
+        <p className="text-muted mt-3 mb-0">Checking your session…</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default AuthGate;
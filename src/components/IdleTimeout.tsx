@@ -0,0 +1,104 @@
+// src/components/IdleTimeout.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button, Modal } from 'react-bootstrap';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { useAppDispatch, useAppSelector } from '../hooks';
+import { logoutUser } from '../features/auth/authSlice';
+import { getConfig } from '../config';
+import { onSharedActivity, shareActivity } from '../features/auth/sessionSync';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
+// Signs authenticated users out after a role-specific period of inactivity, with a countdown warning first
+const IdleTimeout: React.FC = () => {
+  const { isAuthenticated, user } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+
+  const lastActivity = useRef(Date.now());
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  const { idleTimeoutAdminMinutes, idleTimeoutEmployeeMinutes, idleWarningSeconds } = getConfig();
+  const timeoutMs = (user?.role === 'ADMIN' ? idleTimeoutAdminMinutes : idleTimeoutEmployeeMinutes) * 60 * 1000;
+  const warningMs = Math.min(idleWarningSeconds * 1000, timeoutMs);
+  const warningVisible = secondsLeft !== null;
+
+  const stayActive = useCallback(() => {
+    lastActivity.current = Date.now();
+    shareActivity(lastActivity.current);
+    setSecondsLeft(null);
+  }, []);
+
+  // Activity in another tab counts as activity here
+  useEffect(
+    () =>
+      onSharedActivity((at) => {
+        lastActivity.current = Math.max(lastActivity.current, at);
+        setSecondsLeft(null);
+      }),
+    []
+  );
+
+  // Track activity; once the warning is up only the modal button keeps the session alive
+  useEffect(() => {
+    if (!isAuthenticated || warningVisible) return;
+
+    const markActive = () => {
+      lastActivity.current = Date.now();
+      shareActivity(lastActivity.current);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+  }, [isAuthenticated, warningVisible]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    lastActivity.current = Date.now();
+
+    const interval = window.setInterval(() => {
+      const remaining = timeoutMs - (Date.now() - lastActivity.current);
+
+      if (remaining <= 0) {
+        window.clearInterval(interval);
+        setSecondsLeft(null);
+        dispatch(logoutUser()).finally(() => {
+          toast.info('You were signed out due to inactivity.', { toastId: 'idle-logout' });
+          navigate('/login', { replace: true });
+        });
+      } else if (remaining <= warningMs) {
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      }
+    }, 1000);
+
+    return () => window.clearInterval(interval);
+  }, [isAuthenticated, timeoutMs, warningMs, dispatch, navigate]);
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <Modal show={warningVisible} onHide={stayActive} backdrop="static" centered>
+      <Modal.Header>
+        <Modal.Title>Are you still there?</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        You will be signed out in <strong>{secondsLeft}s</strong> due to inactivity.
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="outline-secondary" onClick={() => dispatch(logoutUser()).finally(() => navigate('/login'))}>
+          Sign out now
+        </Button>
+        <Button variant="primary" onClick={stayActive}>
+          Stay signed in
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default IdleTimeout;
@@ -1,27 +1,27 @@
 // src/components/PrivateRoute.tsx
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAppSelector } from '../hooks';
+import type { Role } from '../services/types';
+import { loginPathWithReturnTo } from '../utils/routes';
 
 interface Props {
   children: React.ReactNode;
-  requiredRole: 'ADMIN' | 'EMPLOYEE';
+  allowedRoles: Role[];
 }
 
-const PrivateRoute: React.FC<Props> = ({ children, requiredRole }) => {
-  const userStr = localStorage.getItem('user');
+// Decides from the server-verified auth state; AuthGate holds rendering until that is known
+const PrivateRoute: React.FC<Props> = ({ children, allowedRoles }) => {
+  const { isAuthenticated, user } = useAppSelector((state) => state.auth);
+  const location = useLocation();
 
-  // 🚫 Not logged in at all
-  if (!userStr) return <Navigate to="/login" replace />;
-
-  let users: { role: string } ;
-  try {
-    users = JSON.parse(userStr);
-  } catch {
-    return <Navigate to="/login" replace />;
+  // 🚫 Not logged in at all (or logged out from another tab)
+  if (!isAuthenticated || !user) {
+    return <Navigate to={loginPathWithReturnTo(location.pathname + location.search)} replace />;
   }
 
   // 🚫 Role mismatch
-  if (users?.role !== requiredRole) {
+  if (!allowedRoles.includes(user.role)) {
     return <Navigate to="/unauthorized" replace />;
   }
 
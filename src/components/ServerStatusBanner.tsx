@@ -0,0 +1,37 @@
+// src/components/ServerStatusBanner.tsx
+import React, { useEffect } from 'react';
+import { Alert, Button, Spinner } from 'react-bootstrap';
+import { useAppDispatch, useAppSelector } from '../hooks';
+import { pingHealth } from '../features/server/serverSlice';
+
+// Explains slow responses while the backend wakes up, and offers a retry if it never does
+const ServerStatusBanner: React.FC = () => {
+  const { waking, health, error } = useAppSelector((state) => state.server);
+  const dispatch = useAppDispatch();
+
+  useEffect(() => {
+    dispatch(pingHealth());
+  }, [dispatch]);
+
+  if (health === 'down' && !waking) {
+    return (
+      <Alert variant="danger" className="mb-0 rounded-0 text-center py-2">
+        {error?.replace(/\.$/, '')}. Some data may not load.
+        <Button size="sm" variant="outline-danger" className="ms-3" onClick={() => dispatch(pingHealth())}>
+          Retry
+        </Button>
+      </Alert>
+    );
+  }
+
+  if (!waking) return null;
+
+  return (
+    <Alert variant="info" className="mb-0 rounded-0 text-center py-2">
+      <Spinner animation="border" size="sm" className="me-2" />
+      Waking up server… The first request after a quiet period can take up to a minute.
+    </Alert>
+  );
+};
+
+export default ServerStatusBanner;
@@ -0,0 +1,32 @@
+// src/components/SessionExpiryRedirect.tsx
+import React, { useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { useAppSelector } from '../hooks';
+import { loginPathWithReturnTo } from '../utils/routes';
+
+// Sends the user to /login, remembering where they were, once the api client gives up on the session
+const SessionExpiryRedirect: React.FC = () => {
+  const sessionExpired = useAppSelector((state) => state.auth.sessionExpired);
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Redirect once per expiry, not again on every later navigation
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (!sessionExpired) {
+      handled.current = false;
+      return;
+    }
+    if (handled.current) return;
+    handled.current = true;
+    if (location.pathname === '/login') return;
+
+    toast.warning('Your session has expired. Please log in again.', { toastId: 'session-expired' });
+    navigate(loginPathWithReturnTo(location.pathname + location.search), { replace: true });
+  }, [sessionExpired, location.pathname, location.search, navigate]);
+
+  return null;
+};
+
+export default SessionExpiryRedirect;
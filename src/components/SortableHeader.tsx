@@ -0,0 +1,32 @@
+import React from 'react';
+import { FaSort, FaSortDown, FaSortUp } from 'react-icons/fa';
+import type { SortOrder, TransactionSortField } from '../services/types';
+
+interface Props {
+  field: TransactionSortField;
+  label: string;
+  sort?: TransactionSortField;
+  order?: SortOrder;
+  onSort: (field: TransactionSortField) => void;
+}
+
+// Table header cell that toggles the ledger sort; unsorted ledgers are newest first
+const SortableHeader: React.FC<Props> = ({ field, label, sort, order, onSort }) => {
+  const active = sort === field;
+  const Icon = !active ? FaSort : order === 'asc' ? FaSortUp : FaSortDown;
+
+  return (
+    <th aria-sort={active ? (order === 'asc' ? 'ascending' : 'descending') : undefined} className="text-nowrap">
+      <button
+        type="button"
+        className="btn btn-link p-0 border-0 text-reset text-decoration-none fw-bold user-select-none"
+        onClick={() => onSort(field)}
+      >
+        {label}
+        <Icon className={`ms-1 ${active ? '' : 'text-muted opacity-50'}`} size={12} />
+      </button>
+    </th>
+  );
+};
+
+export default SortableHeader;
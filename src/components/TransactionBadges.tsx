@@ -0,0 +1,27 @@
+import React from 'react';
+import { Badge } from 'react-bootstrap';
+import type { Transaction } from '../services/types';
+
+// Type and reversal-linkage badges shown next to a transaction in the ledgers
+const TransactionBadges: React.FC<{ transaction: Transaction }> = ({ transaction }) => (
+  <>
+    {transaction.type === 'KUDOS' && (
+      <Badge bg="info" className="ms-2">Kudos</Badge>
+    )}
+    {transaction.type === 'REDEMPTION' && (
+      <Badge bg="primary" className="ms-2">Reward</Badge>
+    )}
+    {transaction.reversalOfId && (
+      <Badge bg="secondary" className="ms-2" title={transaction.reversalReason || undefined}>
+        Reversal of #{transaction.reversalOfId}
+      </Badge>
+    )}
+    {transaction.reversedById && (
+      <Badge bg="warning" text="dark" className="ms-2">
+        Reversed by #{transaction.reversedById}
+      </Badge>
+    )}
+  </>
+);
+
+export default TransactionBadges;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Alert, Badge, Button, ListGroup, Spinner } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
+import { useAppSelector } from '../hooks';
+import { useGetTransactionQuery } from '../features/transactions/transactionsApi';
+import TransactionBadges from './TransactionBadges';
+
+interface Props {
+  id: number;
+  // Opens a linked transaction in place (drawer); without it, linked transactions are page links
+  onSelect?: (id: number) => void;
+}
+
+const formatTimestamp = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return {
+    local: date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'long' }),
+    utc: date.toISOString(),
+  };
+};
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <ListGroup.Item className="d-flex justify-content-between align-items-start">
+    <span className="text-muted me-3">{label}</span>
+    <span className="text-end">{children}</span>
+  </ListGroup.Item>
+);
+
+export default function TransactionDetail({ id, onSelect }: Props) {
+  const { user } = useAppSelector((state) => state.auth);
+  const { data: tx, error, isLoading } = useGetTransactionQuery(id);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-5">
+        <Spinner animation="border" variant="primary" />
+      </div>
+    );
+  }
+
+  // The backend already refuses other users' transactions to employees; never render one if it slips through
+  const isParty = !!tx && (tx.senderId === user?.id || tx.recipientId === user?.id);
+  if (error || !tx || (user?.role !== 'ADMIN' && !isParty)) {
+    return <Alert variant="warning">This transaction does not exist or you do not have access to it.</Alert>;
+  }
+
+  const linkTo = (linkedId: number) =>
+    onSelect ? (
+      <Button variant="link" className="p-0" onClick={() => onSelect(linkedId)}>
+        #{linkedId}
+      </Button>
+    ) : (
+      <Link to={`/transactions/${linkedId}`}>#{linkedId}</Link>
+    );
+
+  const { local, utc } = formatTimestamp(tx.timestamp);
+
+  return (
+    <ListGroup variant="flush">
+      <Row label="ID">
+        #{tx.id}
+        <TransactionBadges transaction={tx} />
+      </Row>
+      <Row label="Type">
+        <Badge bg="light" text="dark">{tx.type ?? 'ALLOCATION'}</Badge>
+      </Row>
+      <Row label="From">{tx.senderName}</Row>
+      <Row label="To">{tx.recipientName}</Row>
+      <Row label="Amount">
+        <strong className="text-primary">{tx.amount.toLocaleString()} pts</strong>
+      </Row>
+      <Row label="Note">{tx.note || <span className="text-muted">—</span>}</Row>
+      <Row label="Date">
+        <div>{local}</div>
+        <small className="text-muted">{utc}</small>
+      </Row>
+      {tx.initiatedByName && <Row label="Initiated by">{tx.initiatedByName}</Row>}
+      {tx.reversalOfId && (
+        <Row label="Reverses">
+          {linkTo(tx.reversalOfId)}
+          {tx.reversalReason && <div className="small text-muted">{tx.reversalReason}</div>}
+        </Row>
+      )}
+      {tx.reversedById && <Row label="Reversed by">{linkTo(tx.reversedById)}</Row>}
+    </ListGroup>
+  );
+}
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Offcanvas } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { FaExternalLinkAlt, FaLink } from 'react-icons/fa';
+import TransactionDetail from './TransactionDetail';
+
+interface Props {
+  // Transaction to show; null keeps the drawer closed
+  transactionId: number | null;
+  onClose: () => void;
+}
+
+export const getTransactionLink = (id: number) => `${window.location.origin}${process.env.PUBLIC_URL}/transactions/${id}`;
+
+// Props that let a ledger row open the drawer by click, or by Enter/Space once focused
+export const transactionRowProps = (open: () => void) => ({
+  tabIndex: 0,
+  style: { cursor: 'pointer' },
+  onClick: open,
+  onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => {
+    // Keys pressed on buttons inside the row are theirs
+    if (event.target !== event.currentTarget || (event.key !== 'Enter' && event.key !== ' ')) return;
+    event.preventDefault();
+    open();
+  },
+});
+
+// Side panel opened from ledger rows; follows reversal links without leaving the dashboard
+export default function TransactionDrawer({ transactionId, onClose }: Props) {
+  const [currentId, setCurrentId] = useState(transactionId);
+
+  useEffect(() => {
+    if (transactionId !== null) setCurrentId(transactionId);
+  }, [transactionId]);
+
+  const copyLink = () => {
+    if (currentId === null) return;
+    navigator.clipboard
+      .writeText(getTransactionLink(currentId))
+      .then(() => toast.info('Link copied'))
+      .catch(() => toast.error('Could not copy the link'));
+  };
+
+  return (
+    <Offcanvas show={transactionId !== null} onHide={onClose} placement="end">
+      <Offcanvas.Header closeButton>
+        <Offcanvas.Title>Transaction #{currentId}</Offcanvas.Title>
+      </Offcanvas.Header>
+      <Offcanvas.Body className="d-flex flex-column">
+        {currentId !== null && <TransactionDetail id={currentId} onSelect={setCurrentId} />}
+        <div className="mt-auto pt-3 d-flex gap-2">
+          <Button size="sm" variant="outline-secondary" onClick={copyLink}>
+            <FaLink className="me-1" />
+            Copy link
+          </Button>
+          <Link to={`/transactions/${currentId}`} className="btn btn-sm btn-outline-primary">
+            <FaExternalLinkAlt className="me-1" />
+            Open page
+          </Link>
+        </div>
+      </Offcanvas.Body>
+    </Offcanvas>
+  );
+}
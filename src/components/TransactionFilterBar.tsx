@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Badge, Button, Col, Collapse, Form, Row } from 'react-bootstrap';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { FaFilter } from 'react-icons/fa';
+import type { TransactionFilters } from '../services/types';
+import { hasLedgerFilters } from '../features/transactions/useLedgerQuery';
+
+const optionalNumber = yup
+  .number()
+  .transform((value, original) => (original === '' || original === null ? undefined : value))
+  .typeError('Must be a number')
+  .min(0, 'Cannot be negative');
+
+const schema = yup.object({
+  sender: yup.string().trim(),
+  recipient: yup.string().trim(),
+  minAmount: optionalNumber,
+  maxAmount: optionalNumber.test('range', 'Must be at least the minimum', function (value) {
+    return value === undefined || this.parent.minAmount === undefined || value >= this.parent.minAmount;
+  }),
+  from: yup.string(),
+  to: yup.string().test('range', 'Must be on or after the start date', function (value) {
+    return !value || !this.parent.from || value >= this.parent.from;
+  }),
+  q: yup.string().trim(),
+});
+
+type FormData = yup.InferType<typeof schema>;
+
+interface Props {
+  filters: TransactionFilters;
+  onApply: (filters: TransactionFilters) => void;
+}
+
+const EMPTY: FormData = { sender: '', recipient: '', minAmount: undefined, maxAmount: undefined, from: '', to: '', q: '' };
+
+// Drops empty fields so they stay out of the URL
+const clean = (data: FormData): TransactionFilters =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined && value !== '')) as TransactionFilters;
+
+export default function TransactionFilterBar({ filters, onApply }: Props) {
+  const active = hasLedgerFilters(filters);
+  const [open, setOpen] = useState(active);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm({
+    resolver: yupResolver(schema),
+    values: {
+      sender: filters.sender ?? '',
+      recipient: filters.recipient ?? '',
+      minAmount: filters.minAmount,
+      maxAmount: filters.maxAmount,
+      from: filters.from ?? '',
+      to: filters.to ?? '',
+      q: filters.q ?? '',
+    },
+  });
+
+  const clear = () => {
+    reset(EMPTY);
+    onApply({});
+  };
+
+  return (
+    <div className="mb-3">
+      <div className="d-flex align-items-center">
+        <Button size="sm" variant="outline-secondary" onClick={() => setOpen(!open)} aria-expanded={open}>
+          <FaFilter className="me-1" />
+          Filters
+          {active && <Badge bg="primary" className="ms-2">On</Badge>}
+        </Button>
+        {active && (
+          <Button size="sm" variant="link" onClick={clear}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+      <Collapse in={open}>
+        <div>
+          <Form onSubmit={handleSubmit((data) => onApply(clean(data)))} noValidate className="pt-3">
+            <Row className="g-2">
+              <Col sm={6} lg={3}>
+                <Form.Control size="sm" placeholder="From (name or email)" {...register('sender')} />
+              </Col>
+              <Col sm={6} lg={3}>
+                <Form.Control size="sm" placeholder="To (name or email)" {...register('recipient')} />
+              </Col>
+              <Col sm={6} lg={3}>
+                <Form.Control size="sm" type="number" min={0} placeholder="Min amount" isInvalid={!!errors.minAmount} {...register('minAmount')} />
+                <Form.Control.Feedback type="invalid">{errors.minAmount?.message}</Form.Control.Feedback>
+              </Col>
+              <Col sm={6} lg={3}>
+                <Form.Control size="sm" type="number" min={0} placeholder="Max amount" isInvalid={!!errors.maxAmount} {...register('maxAmount')} />
+                <Form.Control.Feedback type="invalid">{errors.maxAmount?.message}</Form.Control.Feedback>
+              </Col>
+              <Col sm={6} lg={3}>
+                <Form.Control size="sm" type="date" title="From date" {...register('from')} />
+              </Col>
+              <Col sm={6} lg={3}>
+                <Form.Control size="sm" type="date" title="To date" isInvalid={!!errors.to} {...register('to')} />
+                <Form.Control.Feedback type="invalid">{errors.to?.message}</Form.Control.Feedback>
+              </Col>
+              <Col sm={8} lg={4}>
+                <Form.Control size="sm" placeholder="Search notes" {...register('q')} />
+              </Col>
+              <Col sm={4} lg={2} className="d-grid">
+                <Button size="sm" type="submit">
+                  Apply
+                </Button>
+              </Col>
+            </Row>
+          </Form>
+        </div>
+      </Collapse>
+    </div>
+  );
+}
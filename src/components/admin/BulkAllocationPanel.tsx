@@ -0,0 +1,230 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Alert, Badge, Button, Card, Form, Spinner, Table } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import { FaFileCsv } from 'react-icons/fa';
+import { fetchAllUsers } from '../../services/users';
+import { useAllocatePointsBatchMutation } from '../../features/staffPoints/staffPointsApi';
+import {
+  BULK_TEMPLATE,
+  BulkRow,
+  buildBulkReport,
+  parseBulkRows,
+  toBulkItems,
+} from '../../features/staffPoints/bulkAllocation';
+import type { AdminBalance, BulkAllocationRowResult } from '../../services/types';
+import { downloadCsv, parseCsv } from '../../utils/csv';
+import { createIdempotencyKey } from '../../utils/idempotency';
+import { notifyApiError } from '../../utils/apiError';
+import { getConfig } from '../../config';
+
+interface Props {
+  balance: AdminBalance | null;
+}
+
+export default function BulkAllocationPanel({ balance }: Props) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [results, setResults] = useState<BulkAllocationRowResult[] | null>(null);
+  const [reading, setReading] = useState(false);
+  // One key per parsed file, so resubmitting the same preview cannot allocate twice
+  const [batchKey, setBatchKey] = useState(createIdempotencyKey);
+
+  const [submitBatch, batch] = useAllocatePointsBatchMutation();
+
+  const validRows = useMemo(() => rows.filter((row) => row.errors.length === 0), [rows]);
+  const invalidCount = rows.length - validRows.length;
+  const total = validRows.reduce((sum, row) => sum + row.amount, 0);
+  const exceedsBalance = !!balance && total > balance.availablePoints;
+  const approvalThreshold = getConfig().approvalThreshold;
+  const heldCount = validRows.filter((row) => row.amount > approvalThreshold).length;
+  const resultsByKey = useMemo(() => new Map(results?.map((r) => [r.idempotencyKey, r])), [results]);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setReading(true);
+    // Rows are only validated against the complete directory, never a partial or failed one
+    Promise.all([file.text(), fetchAllUsers()])
+      .then(([text, directory]) => {
+        const parsed = parseBulkRows(parseCsv(text), directory);
+        setFileName(file.name);
+        setRows(parsed);
+        setResults(null);
+        setBatchKey(createIdempotencyKey());
+        if (parsed.length === 0) toast.warning('The file has no rows');
+      })
+      .catch((error) => {
+        clear();
+        notifyApiError(error, 'Failed to read the file');
+      })
+      .finally(() => setReading(false));
+  };
+
+  const clear = () => {
+    setRows([]);
+    setResults(null);
+    setFileName(null);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const submit = () => {
+    submitBatch({ items: toBulkItems(rows), idempotencyKey: batchKey })
+      .unwrap()
+      .then((response) => {
+        setResults(response.results);
+        const failed = response.results.filter((r) => r.status === 'FAILED').length;
+        const held = response.results.filter((r) => r.status === 'PENDING_APPROVAL').length;
+        const completed = response.results.length - failed - held;
+        const heldText = held > 0 ? `, ${held} waiting for approval` : '';
+        if (failed > 0) {
+          toast.warning(`${completed} allocations succeeded${heldText}, ${failed} failed`);
+        } else if (held > 0) {
+          toast.info(`${completed} allocations completed${heldText}`);
+        } else {
+          toast.success(`${completed} allocations completed`);
+        }
+      })
+      .catch((error) => notifyApiError(error, 'Failed to submit bulk allocation'));
+  };
+
+  const downloadReport = () => {
+    const baseName = fileName?.replace(/\.csv$/i, '') || 'bulk-allocation';
+    downloadCsv(`${baseName}-report.csv`, buildBulkReport(rows, results ?? []));
+  };
+
+  const rowStatus = (row: BulkRow) => {
+    if (row.errors.length > 0) return <Badge bg="danger">{results ? 'Skipped' : 'Invalid'}</Badge>;
+    const result = resultsByKey.get(row.idempotencyKey);
+    if (!result) return <Badge bg="secondary">Ready</Badge>;
+    if (result.status === 'PENDING_APPROVAL') return <Badge bg="info">Awaiting approval</Badge>;
+    return result.status === 'SUCCESS' ? <Badge bg="success">Done</Badge> : <Badge bg="danger">Failed</Badge>;
+  };
+
+  return (
+    <Card className="bank-card">
+      <Card.Header className="bank-card-header d-flex align-items-center">
+        <FaFileCsv className="bank-icon" />
+        <span>Bulk Allocation</span>
+        <Button variant="link" size="sm" className="ms-auto" onClick={() => downloadCsv('bulk-allocation-template.csv', BULK_TEMPLATE)}>
+          Download template
+        </Button>
+      </Card.Header>
+      <Card.Body>
+        <Form.Group className="mb-3">
+          <Form.Label>
+            Upload a CSV with columns <code>recipient</code> (email or user id), <code>amount</code> and optional <code>note</code>.
+          </Form.Label>
+          <Form.Control
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFile}
+            disabled={reading || batch.isLoading}
+            className="bank-form-control"
+          />
+          {reading && (
+            <Form.Text className="d-flex align-items-center gap-2">
+              <Spinner size="sm" animation="border" />
+              Checking recipients against the staff directory…
+            </Form.Text>
+          )}
+        </Form.Group>
+
+        {rows.length > 0 && (
+          <>
+            <div className="d-flex flex-wrap gap-3 mb-3 small">
+              <span>
+                <strong>{validRows.length}</strong> valid rows
+              </span>
+              {invalidCount > 0 && (
+                <span className="text-danger">
+                  <strong>{invalidCount}</strong> with errors (will be skipped)
+                </span>
+              )}
+              <span>
+                Total <strong>{total.toLocaleString()} pts</strong>
+                {balance && <> of {balance.availablePoints.toLocaleString()} available</>}
+              </span>
+            </div>
+
+            {heldCount > 0 && !results && (
+              <Alert variant="info">
+                {heldCount} {heldCount === 1 ? 'row is' : 'rows are'} above {approvalThreshold.toLocaleString()} pts and
+                will wait for another admin's approval before the points move.
+              </Alert>
+            )}
+
+            {exceedsBalance && (
+              <Alert variant="danger">The valid rows add up to more than your available balance.</Alert>
+            )}
+
+            <div className="table-responsive" style={{ maxHeight: '360px', overflowY: 'auto' }}>
+              <Table hover size="sm" className="align-middle mb-0">
+                <thead style={{ position: 'sticky', top: 0, backgroundColor: 'white' }}>
+                  <tr>
+                    <th>Line</th>
+                    <th>Recipient</th>
+                    <th>Amount</th>
+                    <th>Note</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const error = row.errors.join('; ') || resultsByKey.get(row.idempotencyKey)?.error;
+                    return (
+                      <tr key={row.idempotencyKey} className={row.errors.length > 0 ? 'table-danger' : ''}>
+                        <td>{row.line}</td>
+                        <td>
+                          {row.recipient ? (
+                            <>
+                              {row.recipient.name}
+                              <div className="text-muted small">{row.recipient.email}</div>
+                            </>
+                          ) : (
+                            row.recipientRef || <em className="text-muted">missing</em>
+                          )}
+                        </td>
+                        <td>{Number.isFinite(row.amount) ? row.amount.toLocaleString() : '—'}</td>
+                        <td className="small">{row.note}</td>
+                        <td>
+                          {rowStatus(row)}
+                          {error && <div className="small text-danger">{error}</div>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </Table>
+            </div>
+
+            <div className="d-flex justify-content-end gap-2 mt-3">
+              <Button variant="outline-secondary" onClick={clear} disabled={batch.isLoading}>
+                Clear
+              </Button>
+              {results ? (
+                <Button variant="outline-primary" onClick={downloadReport}>
+                  Download report
+                </Button>
+              ) : (
+                <Button
+                  className="bank-primary"
+                  onClick={submit}
+                  disabled={batch.isLoading || validRows.length === 0 || exceedsBalance}
+                >
+                  {batch.isLoading ? (
+                    <Spinner size="sm" animation="border" />
+                  ) : (
+                    `Allocate ${total.toLocaleString()} pts to ${validRows.length} staff`
+                  )}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </Card.Body>
+    </Card>
+  );
+}
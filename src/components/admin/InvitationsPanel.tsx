@@ -0,0 +1,154 @@
+import React from 'react';
+import { Badge, Button, Card, Col, Form, Row, Spinner, Table } from 'react-bootstrap';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { FaEnvelopeOpenText } from 'react-icons/fa';
+import { getInvitationLink } from '../../services/invitations';
+import {
+  useCreateInvitationMutation,
+  useGetInvitationsQuery,
+  useRevokeInvitationMutation,
+} from '../../features/invitations/invitationsApi';
+import { useApiErrorToast } from '../../hooks';
+import type { CreateInvitationPayload, Invitation, InvitationStatus } from '../../services/types';
+import { notifyApiError } from '../../utils/apiError';
+
+const schema = yup.object({
+  email: yup.string().email('Invalid email').required('Email is required'),
+  role: yup.mixed<CreateInvitationPayload['role']>().oneOf(['ADMIN', 'EMPLOYEE'], 'Please select a valid role').required('Role is required'),
+});
+
+const STATUS_VARIANTS: Record<InvitationStatus, string> = {
+  PENDING: 'warning',
+  ACCEPTED: 'success',
+  REVOKED: 'secondary',
+  EXPIRED: 'secondary',
+};
+
+export default function InvitationsPanel() {
+  const invitationsQuery = useGetInvitationsQuery({ page: 1, limit: 20 });
+  const [createInvitation] = useCreateInvitationMutation();
+  const [revokeInvitation] = useRevokeInvitationMutation();
+  useApiErrorToast(invitationsQuery.error, 'Failed to fetch invitations');
+
+  const invitations = invitationsQuery.data?.items ?? [];
+  const loading = invitationsQuery.isLoading;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<CreateInvitationPayload>({
+    resolver: yupResolver(schema),
+    defaultValues: { email: '', role: 'EMPLOYEE' },
+  });
+
+  const onSubmit = async (data: CreateInvitationPayload) => {
+    try {
+      await createInvitation(data).unwrap();
+      toast.success(`Invitation sent to ${data.email}`);
+      reset({ email: '', role: data.role });
+    } catch (error) {
+      notifyApiError(error, 'Failed to send invitation');
+    }
+  };
+
+  const copyLink = (invitation: Invitation) => {
+    navigator.clipboard
+      .writeText(getInvitationLink(invitation.code))
+      .then(() => toast.info('Invitation link copied'))
+      .catch(() => toast.error('Could not copy link'));
+  };
+
+  const revoke = (invitation: Invitation) => {
+    revokeInvitation(invitation.id)
+      .unwrap()
+      .then(() => toast.success(`Invitation for ${invitation.email} revoked`))
+      .catch((error) => notifyApiError(error, 'Failed to revoke invitation'));
+  };
+
+  return (
+    <Card className="bank-card">
+      <Card.Header className="bank-card-header d-flex align-items-center">
+        <FaEnvelopeOpenText className="bank-icon" />
+        <span>Invitations</span>
+      </Card.Header>
+      <Card.Body>
+        <Form onSubmit={handleSubmit(onSubmit)} noValidate>
+          <Row className="g-3 align-items-start">
+            <Col md={6}>
+              <Form.Control
+                type="email"
+                placeholder="new.staff@school.edu"
+                {...register('email')}
+                className={`bank-form-control ${errors.email ? 'is-invalid' : ''}`}
+              />
+              {errors.email && <div className="invalid-feedback">{errors.email.message}</div>}
+            </Col>
+            <Col md={3}>
+              <Form.Select {...register('role')} className={`bank-form-control ${errors.role ? 'is-invalid' : ''}`}>
+                <option value="EMPLOYEE">Employee</option>
+                <option value="ADMIN">Admin</option>
+              </Form.Select>
+              {errors.role && <div className="invalid-feedback">{errors.role.message}</div>}
+            </Col>
+            <Col md={3}>
+              <Button type="submit" className="bank-primary w-100" disabled={isSubmitting}>
+                {isSubmitting ? <Spinner size="sm" animation="border" /> : 'Send Invite'}
+              </Button>
+            </Col>
+          </Row>
+        </Form>
+
+        <div className="table-responsive mt-4">
+          {loading ? (
+            <div className="text-center py-4">
+              <Spinner animation="border" variant="primary" />
+            </div>
+          ) : invitations.length === 0 ? (
+            <p className="text-muted text-center mb-0">No invitations yet.</p>
+          ) : (
+            <Table hover className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Email</th>
+                  <th>Role</th>
+                  <th>Status</th>
+                  <th>Expires</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {invitations.map((invitation) => (
+                  <tr key={invitation.id}>
+                    <td>{invitation.email}</td>
+                    <td>{invitation.role === 'ADMIN' ? 'Admin' : 'Employee'}</td>
+                    <td>
+                      <Badge bg={STATUS_VARIANTS[invitation.status]}>{invitation.status}</Badge>
+                    </td>
+                    <td>{new Date(invitation.expiresAt).toLocaleDateString()}</td>
+                    <td className="text-end text-nowrap">
+                      {invitation.status === 'PENDING' && (
+                        <>
+                          <Button size="sm" variant="outline-primary" className="me-2" onClick={() => copyLink(invitation)}>
+                            Copy link
+                          </Button>
+                          <Button size="sm" variant="outline-danger" onClick={() => revoke(invitation)}>
+                            Revoke
+                          </Button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </div>
+      </Card.Body>
+    </Card>
+  );
+}
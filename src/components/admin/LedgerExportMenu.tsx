@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { Dropdown, Spinner } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import { FaFileExport } from 'react-icons/fa';
+import { fetchAllTransactions, fetchTransactions } from '../../services/transactions';
+import type { TransactionQuery } from '../../services/types';
+import { exportLedgerCsv, exportLedgerXlsx } from '../../features/transactions/ledgerExport';
+import { notifyApiError } from '../../utils/apiError';
+
+type ExportFormat = 'csv' | 'xlsx';
+
+interface Props {
+  // Filters and sort of the ledger on screen; pagination is ignored
+  query: TransactionQuery;
+}
+
+export default function LedgerExportMenu({ query }: Props) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const exportLedger = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const { page, limit, ...filters } = query;
+      const transactions = await fetchAllTransactions(fetchTransactions, filters);
+      const filename = `transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      if (format === 'csv') exportLedgerCsv(filename, transactions);
+      else await exportLedgerXlsx(filename, transactions);
+
+      toast.success(`Exported ${transactions.length} transactions`);
+    } catch (error) {
+      notifyApiError(error, 'Failed to export transactions');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Dropdown align="end">
+      <Dropdown.Toggle size="sm" variant="outline-primary" disabled={!!exporting} id="ledger-export">
+        {exporting ? <Spinner size="sm" animation="border" /> : <FaFileExport className="me-1" />}
+        Export
+      </Dropdown.Toggle>
+      <Dropdown.Menu>
+        <Dropdown.Item onClick={() => exportLedger('csv')}>CSV (.csv)</Dropdown.Item>
+        <Dropdown.Item onClick={() => exportLedger('xlsx')}>Excel (.xlsx)</Dropdown.Item>
+      </Dropdown.Menu>
+    </Dropdown>
+  );
+}
@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { Badge, Nav } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { usePendingApprovals } from '../../features/allocationRequests/allocationRequestsApi';
+
+// Navbar entry for admins: counts requests they can decide on and announces new ones
+const PendingApprovalsNavLink: React.FC = () => {
+  const { actionable } = usePendingApprovals();
+  const seen = useRef<Set<number> | null>(null);
+
+  useEffect(() => {
+    const ids = new Set(actionable.map((r) => r.id));
+    // The first load only records what is already pending
+    if (seen.current) {
+      const fresh = actionable.filter((r) => !seen.current!.has(r.id));
+      if (fresh.length === 1) {
+        const [req] = fresh;
+        toast.info(
+          `${req.requestedByName || 'An admin'} requested approval for ${req.amount.toLocaleString()} pts to ${
+            req.recipientName || `User #${req.recipientId}`
+          }`
+        );
+      } else if (fresh.length > 1) {
+        toast.info(`${fresh.length} new allocations are waiting for your approval`);
+      }
+    }
+    seen.current = ids;
+  }, [actionable]);
+
+  return (
+    <Nav.Link as={Link} to="/dashboard/admin#pending-approvals">
+      Approvals
+      {actionable.length > 0 && (
+        <Badge bg="warning" text="dark" pill className="ms-1">
+          {actionable.length}
+        </Badge>
+      )}
+    </Nav.Link>
+  );
+};
+
+export default PendingApprovalsNavLink;
@@ -0,0 +1,168 @@
+import React, { useRef, useState } from 'react';
+import { Badge, Button, Card, Form, Modal, Spinner, Table } from 'react-bootstrap';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { FaUserCheck } from 'react-icons/fa';
+import {
+  useApproveAllocationRequestMutation,
+  usePendingApprovals,
+  useRejectAllocationRequestMutation,
+} from '../../features/allocationRequests/allocationRequestsApi';
+import { useApiErrorToast, useAppSelector } from '../../hooks';
+import type { AllocationRequest, RejectAllocationRequestPayload } from '../../services/types';
+import { createIdempotencyKey } from '../../utils/idempotency';
+import { notifyApiError } from '../../utils/apiError';
+
+const rejectSchema = yup.object({
+  reason: yup
+    .string()
+    .trim()
+    .required('A reason is required')
+    .max(200, 'Reason must be less than 200 characters'),
+});
+
+export default function PendingApprovalsPanel() {
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+  const { requests, isLoading, error } = usePendingApprovals();
+  const [approveRequest, approval] = useApproveAllocationRequestMutation();
+  const [rejectRequest, rejection] = useRejectAllocationRequestMutation();
+  useApiErrorToast(error, 'Failed to fetch allocation requests');
+
+  // One key per request, so a repeated approval click cannot allocate twice
+  const approvalKeys = useRef(new Map<number, string>());
+  const [rejecting, setRejecting] = useState<AllocationRequest | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<RejectAllocationRequestPayload>({ resolver: yupResolver(rejectSchema), defaultValues: { reason: '' } });
+
+  const approve = (req: AllocationRequest) => {
+    if (!approvalKeys.current.has(req.id)) approvalKeys.current.set(req.id, createIdempotencyKey());
+
+    approveRequest({ id: req.id, idempotencyKey: approvalKeys.current.get(req.id)! })
+      .unwrap()
+      .then(() => {
+        approvalKeys.current.delete(req.id);
+        toast.success(`Approved ${req.amount.toLocaleString()} points for ${req.recipientName || `User #${req.recipientId}`}`);
+      })
+      .catch((err) => notifyApiError(err, 'Failed to approve request'));
+  };
+
+  const openReject = (req: AllocationRequest) => {
+    reset({ reason: '' });
+    setRejecting(req);
+  };
+
+  const onReject = ({ reason }: RejectAllocationRequestPayload) => {
+    if (!rejecting) return;
+
+    rejectRequest({ id: rejecting.id, payload: { reason } })
+      .unwrap()
+      .then(() => {
+        toast.info(`Request #${rejecting.id} rejected`);
+        setRejecting(null);
+      })
+      .catch((err) => notifyApiError(err, 'Failed to reject request'));
+  };
+
+  const busy = approval.isLoading || rejection.isLoading;
+
+  return (
+    <Card className="bank-card" id="pending-approvals">
+      <Card.Header className="bank-card-header d-flex align-items-center">
+        <FaUserCheck className="bank-icon" />
+        <span>Pending Approvals</span>
+        <Badge bg={requests.length > 0 ? 'warning' : 'light'} text="dark" className="ms-auto">
+          {requests.length}
+        </Badge>
+      </Card.Header>
+      <Card.Body>
+        {isLoading ? (
+          <div className="text-center py-3">
+            <Spinner animation="border" variant="primary" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-muted mb-0">No allocations are waiting for approval.</p>
+        ) : (
+          <div className="table-responsive">
+            <Table hover size="sm" className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Requested by</th>
+                  <th>Recipient</th>
+                  <th>Amount</th>
+                  <th>Note</th>
+                  <th>Requested</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {requests.map((req) => {
+                  const isOwn = req.requestedById === currentUserId;
+                  return (
+                    <tr key={req.id}>
+                      <td>
+                        {req.requestedByName || `User #${req.requestedById}`}
+                        {isOwn && <Badge bg="secondary" className="ms-2">You</Badge>}
+                      </td>
+                      <td>{req.recipientName || `User #${req.recipientId}`}</td>
+                      <td className="fw-semibold">{req.amount.toLocaleString()} pts</td>
+                      <td className="small">{req.note || <span className="text-muted">—</span>}</td>
+                      <td className="small">{new Date(req.createdAt).toLocaleString()}</td>
+                      <td className="text-end text-nowrap">
+                        {isOwn ? (
+                          <small className="text-muted">Awaiting another admin</small>
+                        ) : (
+                          <>
+                            <Button size="sm" variant="success" className="me-2" onClick={() => approve(req)} disabled={busy}>
+                              Approve
+                            </Button>
+                            <Button size="sm" variant="outline-danger" onClick={() => openReject(req)} disabled={busy}>
+                              Reject
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </Table>
+          </div>
+        )}
+      </Card.Body>
+
+      <Modal show={!!rejecting} onHide={rejection.isLoading ? undefined : () => setRejecting(null)} centered>
+        <Form onSubmit={handleSubmit(onReject)} noValidate>
+          <Modal.Header closeButton={!rejection.isLoading}>
+            <Modal.Title>Reject request #{rejecting?.id}</Modal.Title>
+          </Modal.Header>
+          <Modal.Body>
+            <p>
+              {rejecting?.requestedByName || 'An admin'} asked to allocate{' '}
+              <strong>{rejecting?.amount.toLocaleString()} pts</strong> to {rejecting?.recipientName}.
+            </p>
+            <Form.Group>
+              <Form.Label>Reason</Form.Label>
+              <Form.Control as="textarea" rows={2} autoFocus isInvalid={!!errors.reason} {...register('reason')} />
+              <Form.Control.Feedback type="invalid">{errors.reason?.message}</Form.Control.Feedback>
+            </Form.Group>
+          </Modal.Body>
+          <Modal.Footer>
+            <Button variant="outline-secondary" onClick={() => setRejecting(null)} disabled={rejection.isLoading}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="danger" disabled={rejection.isLoading}>
+              {rejection.isLoading ? <Spinner size="sm" animation="border" /> : 'Reject request'}
+            </Button>
+          </Modal.Footer>
+        </Form>
+      </Modal>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Button, Form, InputGroup, Modal } from 'react-bootstrap';
+import { FaUserTie } from 'react-icons/fa';
+import type { StaffMember } from '../../services/types';
+import StaffDirectory from './StaffDirectory';
+
+// Enough to show the current choice; an existing record may only carry the recipient's id and name
+type Recipient = Pick<StaffMember, 'id' | 'name'> & Partial<StaffMember>;
+
+const describeRecipient = ({ name, role }: Recipient) =>
+  role ? `${name} (${role === 'ADMIN' ? 'Admin' : 'Employee'})` : name;
+
+interface Props {
+  recipient: Recipient | null;
+  onChange: (recipient: StaffMember) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+// Form field that opens the staff directory to choose a recipient
+export default function RecipientPicker({ recipient, onChange, error, disabled }: Props) {
+  const [show, setShow] = useState(false);
+
+  const select = (user: StaffMember) => {
+    onChange(user);
+    setShow(false);
+  };
+
+  return (
+    <>
+      <InputGroup hasValidation>
+        <Form.Control
+          readOnly
+          value={recipient ? describeRecipient(recipient) : ''}
+          placeholder="Select recipient"
+          onClick={() => !disabled && setShow(true)}
+          className="bank-form-control"
+          isInvalid={!!error}
+          disabled={disabled}
+          style={{ cursor: disabled ? undefined : 'pointer' }}
+        />
+        <Button variant="outline-primary" onClick={() => setShow(true)} disabled={disabled}>
+          Browse
+        </Button>
+        {error && <Form.Control.Feedback type="invalid">{error}</Form.Control.Feedback>}
+      </InputGroup>
+
+      <Modal show={show} onHide={() => setShow(false)} centered>
+        <Modal.Header closeButton>
+          <Modal.Title>
+            <FaUserTie className="me-2" />
+            Choose recipient
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body className="p-0">
+          <StaffDirectory selectedId={recipient?.id} onSelect={select} maxHeight="50vh" />
+        </Modal.Body>
+      </Modal>
+    </>
+  );
+}
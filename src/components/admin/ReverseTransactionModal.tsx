@@ -0,0 +1,114 @@
+import React, { useEffect, useRef } from 'react';
+import { Alert, Button, Form, ListGroup, Modal, Spinner } from 'react-bootstrap';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { useReverseTransactionMutation } from '../../features/transactions/transactionsApi';
+import type { ReverseTransactionPayload, Transaction } from '../../services/types';
+import { createIdempotencyKey } from '../../utils/idempotency';
+import { notifyApiError } from '../../utils/apiError';
+
+const schema = yup.object({
+  reason: yup
+    .string()
+    .trim()
+    .required('A reason is required')
+    .min(5, 'Reason must be at least 5 characters')
+    .max(200, 'Reason must be less than 200 characters'),
+});
+
+interface Props {
+  transaction: Transaction | null;
+  onClose: () => void;
+}
+
+export default function ReverseTransactionModal({ transaction, onClose }: Props) {
+  const [reverseTransaction, reversal] = useReverseTransactionMutation();
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ReverseTransactionPayload>({ resolver: yupResolver(schema), defaultValues: { reason: '' } });
+
+  // One key per opened transaction, so a retried or double-clicked reversal is applied once
+  const idempotencyKey = useRef(createIdempotencyKey());
+
+  useEffect(() => {
+    idempotencyKey.current = createIdempotencyKey();
+    reset({ reason: '' });
+  }, [transaction, reset]);
+
+  const onSubmit = (payload: ReverseTransactionPayload) => {
+    if (!transaction || reversal.isLoading) return;
+
+    reverseTransaction({ id: transaction.id, payload, idempotencyKey: idempotencyKey.current })
+      .unwrap()
+      .then(() => {
+        toast.success(`Transaction #${transaction.id} reversed`);
+        onClose();
+      })
+      .catch((error) => notifyApiError(error, 'Failed to reverse transaction'));
+  };
+
+  const submitting = reversal.isLoading;
+
+  return (
+    <Modal show={!!transaction} onHide={submitting ? undefined : onClose} centered backdrop={submitting ? 'static' : true}>
+      <Form onSubmit={handleSubmit(onSubmit)} noValidate>
+        <Modal.Header closeButton={!submitting}>
+          <Modal.Title>Reverse transaction #{transaction?.id}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <ListGroup variant="flush" className="mb-3">
+            <ListGroup.Item className="d-flex justify-content-between">
+              <span className="text-muted">From</span>
+              <strong>{transaction?.senderName}</strong>
+            </ListGroup.Item>
+            <ListGroup.Item className="d-flex justify-content-between">
+              <span className="text-muted">To</span>
+              <strong>{transaction?.recipientName}</strong>
+            </ListGroup.Item>
+            <ListGroup.Item className="d-flex justify-content-between">
+              <span className="text-muted">Amount</span>
+              <strong className="text-primary">{transaction?.amount.toLocaleString()} pts</strong>
+            </ListGroup.Item>
+            <ListGroup.Item className="d-flex justify-content-between">
+              <span className="text-muted">Date</span>
+              <span>{transaction && new Date(transaction.timestamp).toLocaleString()}</span>
+            </ListGroup.Item>
+          </ListGroup>
+
+          <Alert variant="warning">
+            A compensating transaction will move {transaction?.amount.toLocaleString()} pts from{' '}
+            {transaction?.recipientName} back to {transaction?.senderName}. The original stays in the ledger, marked as
+            reversed.
+          </Alert>
+
+          <Form.Group>
+            <Form.Label>Reason</Form.Label>
+            <Form.Control
+              as="textarea"
+              rows={2}
+              autoFocus
+              placeholder="Allocated to the wrong staff member"
+              isInvalid={!!errors.reason}
+              disabled={submitting}
+              {...register('reason')}
+            />
+            <Form.Control.Feedback type="invalid">{errors.reason?.message}</Form.Control.Feedback>
+          </Form.Group>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline-secondary" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="danger" disabled={submitting}>
+            {submitting ? <Spinner size="sm" animation="border" /> : 'Reverse transaction'}
+          </Button>
+        </Modal.Footer>
+      </Form>
+    </Modal>
+  );
+}
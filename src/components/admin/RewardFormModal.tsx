@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Col, Form, Image, Modal, Row, Spinner } from 'react-bootstrap';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { useCreateRewardMutation, useUpdateRewardMutation } from '../../features/rewards/rewardsApi';
+import type { Reward } from '../../services/types';
+import { notifyApiError } from '../../utils/apiError';
+
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+const schema = yup.object({
+  name: yup.string().trim().required('Name is required').max(80, 'Name must be less than 80 characters'),
+  description: yup.string().trim().max(300, 'Description must be less than 300 characters').default(''),
+  cost: yup.number().typeError('Cost is required').required('Cost is required').integer().min(1, 'Cost must be at least 1'),
+  // Left empty for unlimited stock
+  stock: yup
+    .number()
+    .transform((value, original) => (original === '' || original === null ? null : value))
+    .nullable()
+    .typeError('Stock must be a number')
+    .integer()
+    .min(0, 'Stock cannot be negative')
+    .default(null),
+  active: yup.boolean().default(true),
+});
+
+type FormData = yup.InferType<typeof schema>;
+
+interface Props {
+  show: boolean;
+  // The reward being edited, or null to create one
+  reward: Reward | null;
+  onClose: () => void;
+}
+
+export default function RewardFormModal({ show, reward, onClose }: Props) {
+  const [createReward, creation] = useCreateRewardMutation();
+  const [updateReward, update] = useUpdateRewardMutation();
+  const [image, setImage] = useState<File | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<FormData>({ resolver: yupResolver(schema) });
+
+  useEffect(() => {
+    if (!show) return;
+    reset({
+      name: reward?.name ?? '',
+      description: reward?.description ?? '',
+      cost: reward?.cost ?? 100,
+      stock: reward?.stock ?? null,
+      active: reward?.active ?? true,
+    });
+    setImage(null);
+    setPreview(reward?.imageUrl ?? null);
+  }, [show, reward, reset]);
+
+  // Release object URLs created for local previews
+  useEffect(() => {
+    if (!preview?.startsWith('blob:')) return;
+    return () => URL.revokeObjectURL(preview);
+  }, [preview]);
+
+  const handleImage = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    if (file && file.size > MAX_IMAGE_BYTES) {
+      toast.error('Images must be 2 MB or smaller');
+      event.target.value = '';
+      return;
+    }
+    setImage(file);
+    setPreview(file ? URL.createObjectURL(file) : reward?.imageUrl ?? null);
+  };
+
+  const submitting = creation.isLoading || update.isLoading;
+
+  const onSubmit = (data: FormData) => {
+    const payload = { ...data, image };
+    const saving = reward ? updateReward({ id: reward.id, payload }) : createReward(payload);
+
+    saving
+      .unwrap()
+      .then(() => {
+        toast.success(reward ? 'Reward updated' : 'Reward added to the catalog');
+        onClose();
+      })
+      .catch((error) => notifyApiError(error, 'Failed to save reward'));
+  };
+
+  return (
+    <Modal show={show} onHide={submitting ? undefined : onClose} centered>
+      <Form onSubmit={handleSubmit(onSubmit)} noValidate>
+        <Modal.Header closeButton={!submitting}>
+          <Modal.Title>{reward ? 'Edit reward' : 'New reward'}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <fieldset disabled={submitting}>
+            <Form.Group className="mb-3">
+              <Form.Label>Name</Form.Label>
+              <Form.Control type="text" isInvalid={!!errors.name} {...register('name')} />
+              <Form.Control.Feedback type="invalid">{errors.name?.message}</Form.Control.Feedback>
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>Description</Form.Label>
+              <Form.Control as="textarea" rows={2} isInvalid={!!errors.description} {...register('description')} />
+              <Form.Control.Feedback type="invalid">{errors.description?.message}</Form.Control.Feedback>
+            </Form.Group>
+            <Row className="g-3 mb-3">
+              <Col xs={6}>
+                <Form.Group>
+                  <Form.Label>Cost (pts)</Form.Label>
+                  <Form.Control type="number" min={1} isInvalid={!!errors.cost} {...register('cost')} />
+                  <Form.Control.Feedback type="invalid">{errors.cost?.message}</Form.Control.Feedback>
+                </Form.Group>
+              </Col>
+              <Col xs={6}>
+                <Form.Group>
+                  <Form.Label>Stock</Form.Label>
+                  <Form.Control type="number" min={0} placeholder="Unlimited" isInvalid={!!errors.stock} {...register('stock')} />
+                  <Form.Control.Feedback type="invalid">{errors.stock?.message}</Form.Control.Feedback>
+                </Form.Group>
+              </Col>
+            </Row>
+            <Form.Group className="mb-3">
+              <Form.Label>Image</Form.Label>
+              <Form.Control type="file" accept="image/*" onChange={handleImage} />
+              {preview && <Image src={preview} alt="" thumbnail className="mt-2" style={{ maxHeight: 120 }} />}
+            </Form.Group>
+            <Form.Check type="switch" id="reward-active" label="Visible to employees" {...register('active')} />
+          </fieldset>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline-secondary" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? <Spinner size="sm" animation="border" /> : 'Save'}
+          </Button>
+        </Modal.Footer>
+      </Form>
+    </Modal>
+  );
+}
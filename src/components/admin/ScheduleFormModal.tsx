@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Col, Form, Modal, Row, Spinner } from 'react-bootstrap';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { useCreateScheduleMutation, useUpdateScheduleMutation } from '../../features/schedules/schedulesApi';
+import type { AllocationSchedule, ScheduleFrequency, StaffMember } from '../../services/types';
+import { notifyApiError } from '../../utils/apiError';
+import { toDateInput } from '../../utils/dates';
+import RecipientPicker from './RecipientPicker';
+
+export const FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  ONCE: 'One-off',
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+  TERM: 'Every term',
+};
+
+// startDate and endDate are calendar dates; `new Date()` would read them as UTC midnight and shift them a day
+const toDateOnly = (value: string) => value.slice(0, 10);
+
+const schema = yup.object({
+  recipientId: yup.number().typeError('Recipient is required').required('Recipient is required').positive('Recipient is required').integer(),
+  amount: yup.number().typeError('Amount is required').required('Amount is required').integer().min(1, 'Amount must be at least 1'),
+  note: yup.string().max(100, 'Note must be less than 100 characters').default(''),
+  frequency: yup
+    .mixed<ScheduleFrequency>()
+    .oneOf(['ONCE', 'WEEKLY', 'MONTHLY', 'TERM'], 'Please select a frequency')
+    .required('Frequency is required'),
+  startDate: yup
+    .string()
+    .required('Start date is required')
+    // A paused schedule has no next run, so its form shows the original (possibly past) start date
+    .test('not-past', 'Start date cannot be in the past', function (value) {
+      return !value || !!this.options.context?.allowPastStart || value >= toDateInput(new Date());
+    }),
+  endDate: yup
+    .string()
+    .default('')
+    .test('after-start', 'End date must be after the start date', function (value) {
+      return !value || this.parent.frequency === 'ONCE' || value > this.parent.startDate;
+    }),
+});
+
+type FormData = yup.InferType<typeof schema>;
+
+interface Props {
+  show: boolean;
+  // The schedule being edited, or null to create one
+  schedule: AllocationSchedule | null;
+  onClose: () => void;
+}
+
+export default function ScheduleFormModal({ show, schedule, onClose }: Props) {
+  const [createSchedule, creation] = useCreateScheduleMutation();
+  const [updateSchedule, update] = useUpdateScheduleMutation();
+  const [recipient, setRecipient] = useState<Pick<StaffMember, 'id' | 'name'> | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<FormData>({
+    resolver: yupResolver(schema),
+    context: { allowPastStart: schedule?.status === 'PAUSED' },
+  });
+
+  const frequency = watch('frequency');
+
+  useEffect(() => {
+    if (!show) return;
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    setRecipient(
+      schedule ? { id: schedule.recipientId, name: schedule.recipientName || `User #${schedule.recipientId}` } : null
+    );
+    reset({
+      recipientId: schedule?.recipientId ?? 0,
+      amount: schedule?.amount ?? 100,
+      note: schedule?.note ?? '',
+      frequency: schedule?.frequency ?? 'MONTHLY',
+      // An edited schedule continues from its next run, a moment in time unlike the date-only fields
+      startDate: schedule?.nextRunAt
+        ? toDateInput(new Date(schedule.nextRunAt))
+        : schedule
+          ? toDateOnly(schedule.startDate)
+          : toDateInput(tomorrow),
+      endDate: schedule?.endDate ? toDateOnly(schedule.endDate) : '',
+    });
+  }, [show, schedule, reset]);
+
+  const submitting = creation.isLoading || update.isLoading;
+
+  const selectRecipient = (user: StaffMember) => {
+    setRecipient(user);
+    setValue('recipientId', user.id, { shouldValidate: true });
+  };
+
+  const onSubmit = ({ endDate, ...data }: FormData) => {
+    const payload = { ...data, endDate: data.frequency === 'ONCE' || !endDate ? null : endDate };
+    const saving = schedule ? updateSchedule({ id: schedule.id, payload }) : createSchedule(payload);
+
+    saving
+      .unwrap()
+      .then(() => {
+        toast.success(schedule ? 'Schedule updated' : 'Allocation scheduled');
+        onClose();
+      })
+      .catch((error) => notifyApiError(error, 'Failed to save schedule'));
+  };
+
+  return (
+    <Modal show={show} onHide={submitting ? undefined : onClose} centered>
+      <Form onSubmit={handleSubmit(onSubmit)} noValidate>
+        <Modal.Header closeButton={!submitting}>
+          <Modal.Title>{schedule ? 'Edit schedule' : 'Schedule allocation'}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <fieldset disabled={submitting}>
+            <Form.Group className="mb-3">
+              <Form.Label>Recipient</Form.Label>
+              <RecipientPicker
+                recipient={recipient}
+                onChange={selectRecipient}
+                error={errors.recipientId?.message}
+                disabled={submitting}
+              />
+            </Form.Group>
+            <Row className="g-3 mb-3">
+              <Col xs={6}>
+                <Form.Group>
+                  <Form.Label>Points per run</Form.Label>
+                  <Form.Control type="number" min={1} isInvalid={!!errors.amount} {...register('amount')} />
+                  <Form.Control.Feedback type="invalid">{errors.amount?.message}</Form.Control.Feedback>
+                </Form.Group>
+              </Col>
+              <Col xs={6}>
+                <Form.Group>
+                  <Form.Label>Frequency</Form.Label>
+                  <Form.Select isInvalid={!!errors.frequency} {...register('frequency')}>
+                    {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </Form.Select>
+                  <Form.Control.Feedback type="invalid">{errors.frequency?.message}</Form.Control.Feedback>
+                </Form.Group>
+              </Col>
+              <Col xs={6}>
+                <Form.Group>
+                  <Form.Label>{frequency === 'ONCE' ? 'Run on' : 'First run'}</Form.Label>
+                  <Form.Control type="date" isInvalid={!!errors.startDate} {...register('startDate')} />
+                  <Form.Control.Feedback type="invalid">{errors.startDate?.message}</Form.Control.Feedback>
+                </Form.Group>
+              </Col>
+              {frequency !== 'ONCE' && (
+                <Col xs={6}>
+                  <Form.Group>
+                    <Form.Label>Ends</Form.Label>
+                    <Form.Control type="date" isInvalid={!!errors.endDate} {...register('endDate')} />
+                    <Form.Control.Feedback type="invalid">{errors.endDate?.message}</Form.Control.Feedback>
+                    <Form.Text>Leave empty to run until cancelled</Form.Text>
+                  </Form.Group>
+                </Col>
+              )}
+            </Row>
+            <Form.Group>
+              <Form.Label>Note</Form.Label>
+              <Form.Control type="text" placeholder="Monthly class teacher allowance" isInvalid={!!errors.note} {...register('note')} />
+              <Form.Control.Feedback type="invalid">{errors.note?.message}</Form.Control.Feedback>
+            </Form.Group>
+          </fieldset>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline-secondary" onClick={onClose} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? <Spinner size="sm" animation="border" /> : 'Save'}
+          </Button>
+        </Modal.Footer>
+      </Form>
+    </Modal>
+  );
+}
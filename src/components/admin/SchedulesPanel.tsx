@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Badge, Button, Card, Modal, Pagination, Spinner, Table } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import { FaCalendarAlt, FaPlus } from 'react-icons/fa';
+import {
+  useCancelScheduleMutation,
+  useGetScheduleExecutionsQuery,
+  useGetSchedulesQuery,
+  usePauseScheduleMutation,
+  useResumeScheduleMutation,
+} from '../../features/schedules/schedulesApi';
+import ScheduleFormModal, { FREQUENCY_LABELS } from './ScheduleFormModal';
+import type { AllocationSchedule, ScheduleExecution, ScheduleStatus } from '../../services/types';
+import { notifyApiError } from '../../utils/apiError';
+import { useApiErrorToast } from '../../hooks';
+
+const STATUS_VARIANTS: Record<ScheduleStatus, string> = {
+  ACTIVE: 'success',
+  PAUSED: 'warning',
+  COMPLETED: 'secondary',
+  CANCELLED: 'secondary',
+};
+
+const EXECUTION_VARIANTS: Record<ScheduleExecution['status'], string> = {
+  SUCCESS: 'success',
+  FAILED: 'danger',
+  PENDING_APPROVAL: 'info',
+};
+
+function ExecutionHistory({ schedule }: { schedule: AllocationSchedule }) {
+  const executionsQuery = useGetScheduleExecutionsQuery({ id: schedule.id, page: 1, limit: 20 });
+  useApiErrorToast(executionsQuery.error, 'Failed to fetch schedule history');
+  const executions = executionsQuery.data?.items ?? [];
+
+  if (executionsQuery.isLoading) {
+    return (
+      <div className="text-center py-3">
+        <Spinner animation="border" variant="primary" />
+      </div>
+    );
+  }
+
+  if (executions.length === 0) {
+    return <p className="text-muted mb-0">This schedule has not run yet.</p>;
+  }
+
+  return (
+    <Table size="sm" className="align-middle mb-0">
+      <thead>
+        <tr>
+          <th>Ran</th>
+          <th>Result</th>
+          <th>Transaction</th>
+        </tr>
+      </thead>
+      <tbody>
+        {executions.map((execution) => (
+          <tr key={execution.id}>
+            <td>{new Date(execution.runAt).toLocaleString()}</td>
+            <td>
+              <Badge bg={EXECUTION_VARIANTS[execution.status]}>{execution.status.replace('_', ' ')}</Badge>
+              {execution.error && <small className="text-danger ms-2">{execution.error}</small>}
+            </td>
+            <td>{execution.transactionId ? `#${execution.transactionId}` : '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </Table>
+  );
+}
+
+export default function SchedulesPanel() {
+  const [page, setPage] = useState(1);
+  const schedulesQuery = useGetSchedulesQuery({ page, limit: 10 });
+  const [pauseSchedule] = usePauseScheduleMutation();
+  const [resumeSchedule] = useResumeScheduleMutation();
+  const [cancelSchedule, cancellation] = useCancelScheduleMutation();
+  useApiErrorToast(schedulesQuery.error, 'Failed to fetch schedules');
+
+  const schedules = schedulesQuery.data?.items ?? [];
+  const totalPages = schedulesQuery.data?.totalPages ?? 1;
+
+  const [editing, setEditing] = useState<{ schedule: AllocationSchedule | null } | null>(null);
+  const [viewing, setViewing] = useState<AllocationSchedule | null>(null);
+  const [cancelling, setCancelling] = useState<AllocationSchedule | null>(null);
+
+  const togglePaused = (schedule: AllocationSchedule) => {
+    const paused = schedule.status === 'PAUSED';
+    (paused ? resumeSchedule : pauseSchedule)(schedule.id)
+      .unwrap()
+      .then(() => toast.success(paused ? 'Schedule resumed' : 'Schedule paused'))
+      .catch((error) => notifyApiError(error, paused ? 'Failed to resume schedule' : 'Failed to pause schedule'));
+  };
+
+  const confirmCancel = () => {
+    if (!cancelling) return;
+
+    cancelSchedule(cancelling.id)
+      .unwrap()
+      .then(() => {
+        toast.success('Schedule cancelled');
+        setCancelling(null);
+      })
+      .catch((error) => notifyApiError(error, 'Failed to cancel schedule'));
+  };
+
+  return (
+    <Card className="bank-card">
+      <Card.Header className="bank-card-header d-flex align-items-center">
+        <FaCalendarAlt className="bank-icon" />
+        <span>Scheduled Allocations</span>
+        <Button size="sm" className="ms-auto bank-primary" onClick={() => setEditing({ schedule: null })}>
+          <FaPlus className="me-1" />
+          New schedule
+        </Button>
+      </Card.Header>
+      <Card.Body>
+        {schedulesQuery.isLoading ? (
+          <div className="text-center py-3">
+            <Spinner animation="border" variant="primary" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-muted mb-0">No scheduled allocations. Schedule recurring allowances instead of re-entering them.</p>
+        ) : (
+          <>
+            <div className="table-responsive">
+              <Table hover size="sm" className="align-middle mb-0">
+                <thead>
+                  <tr>
+                    <th>Recipient</th>
+                    <th>Amount</th>
+                    <th>Frequency</th>
+                    <th>Next run</th>
+                    <th>Status</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedules.map((schedule) => {
+                    const editable = schedule.status === 'ACTIVE' || schedule.status === 'PAUSED';
+                    return (
+                      <tr key={schedule.id}>
+                        <td>
+                          <div className="fw-medium">{schedule.recipientName || `User #${schedule.recipientId}`}</div>
+                          {schedule.note && <small className="text-muted">{schedule.note}</small>}
+                        </td>
+                        <td>{schedule.amount.toLocaleString()} pts</td>
+                        <td>
+                          {FREQUENCY_LABELS[schedule.frequency]}
+                          {schedule.endDate && (
+                            <small className="text-muted d-block">until {new Date(schedule.endDate).toLocaleDateString()}</small>
+                          )}
+                        </td>
+                        <td>{schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString() : '—'}</td>
+                        <td>
+                          <Badge bg={STATUS_VARIANTS[schedule.status]}>{schedule.status}</Badge>
+                        </td>
+                        <td className="text-end text-nowrap">
+                          <Button size="sm" variant="link" onClick={() => setViewing(schedule)}>
+                            History
+                          </Button>
+                          {editable && (
+                            <>
+                              <Button size="sm" variant="outline-primary" className="me-1" onClick={() => setEditing({ schedule })}>
+                                Edit
+                              </Button>
+                              <Button size="sm" variant="outline-secondary" className="me-1" onClick={() => togglePaused(schedule)}>
+                                {schedule.status === 'PAUSED' ? 'Resume' : 'Pause'}
+                              </Button>
+                              <Button size="sm" variant="outline-danger" onClick={() => setCancelling(schedule)}>
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </Table>
+            </div>
+            {totalPages > 1 && (
+              <Pagination size="sm" className="justify-content-center mt-3 mb-0">
+                <Pagination.Prev onClick={() => setPage(page - 1)} disabled={page === 1} />
+                <Pagination.Item active>{page}</Pagination.Item>
+                <Pagination.Next onClick={() => setPage(page + 1)} disabled={page === totalPages} />
+              </Pagination>
+            )}
+          </>
+        )}
+      </Card.Body>
+
+      <ScheduleFormModal
+        show={!!editing}
+        schedule={editing?.schedule ?? null}
+        onClose={() => setEditing(null)}
+      />
+
+      <Modal show={!!viewing} onHide={() => setViewing(null)} centered size="lg">
+        <Modal.Header closeButton>
+          <Modal.Title>
+            Runs for {viewing?.recipientName} · {viewing?.amount.toLocaleString()} pts
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body>{viewing && <ExecutionHistory schedule={viewing} />}</Modal.Body>
+      </Modal>
+
+      <Modal show={!!cancelling} onHide={cancellation.isLoading ? undefined : () => setCancelling(null)} centered>
+        <Modal.Header closeButton={!cancellation.isLoading}>
+          <Modal.Title>Cancel schedule?</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          No further allocations of {cancelling?.amount.toLocaleString()} pts will be made to {cancelling?.recipientName}.
+          Past runs stay in the ledger.
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline-secondary" onClick={() => setCancelling(null)} disabled={cancellation.isLoading}>
+            Keep schedule
+          </Button>
+          <Button variant="danger" onClick={confirmCancel} disabled={cancellation.isLoading}>
+            {cancellation.isLoading ? <Spinner size="sm" animation="border" /> : 'Cancel schedule'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Badge, Col, Form, InputGroup, ListGroup, Pagination, Row, Spinner } from 'react-bootstrap';
+import { FaSearch } from 'react-icons/fa';
+import { useGetUsersQuery } from '../../features/users/usersApi';
+import type { Role, SortOrder, StaffMember, UserSortField } from '../../services/types';
+import { useApiErrorToast, useDebouncedValue } from '../../hooks';
+
+// Sort field and direction share one select; the value is "<field>:<order>"
+const SORT_OPTIONS: { value: `${UserSortField}:${SortOrder}`; label: string }[] = [
+  { value: 'name:asc', label: 'Name (A–Z)' },
+  { value: 'name:desc', label: 'Name (Z–A)' },
+  { value: 'staffPoints:desc', label: 'Most points' },
+  { value: 'staffPoints:asc', label: 'Fewest points' },
+  { value: 'lastLogin:desc', label: 'Recently active' },
+  { value: 'lastLogin:asc', label: 'Least recently active' },
+];
+
+interface Props {
+  selectedId?: number;
+  onSelect: (user: StaffMember) => void;
+  pageSize?: number;
+  // Caps the list height so long pages scroll inside the card or modal
+  maxHeight?: string;
+}
+
+export default function StaffDirectory({ selectedId, onSelect, pageSize = 10, maxHeight = '480px' }: Props) {
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState<Role | ''>('');
+  const [sort, setSort] = useState<(typeof SORT_OPTIONS)[number]['value']>('name:asc');
+  const [page, setPage] = useState(1);
+
+  const debouncedSearch = useDebouncedValue(search.trim());
+  const [sortField, sortOrder] = sort.split(':') as [UserSortField, SortOrder];
+
+  const usersQuery = useGetUsersQuery({
+    page,
+    limit: pageSize,
+    search: debouncedSearch || undefined,
+    role: role || undefined,
+    sort: sortField,
+    order: sortOrder,
+  });
+  useApiErrorToast(usersQuery.error, 'Failed to fetch users');
+
+  const users = usersQuery.data?.items ?? [];
+  const total = usersQuery.data?.total ?? 0;
+  const totalPages = usersQuery.data?.totalPages ?? 1;
+  const firstShown = total === 0 ? 0 : (page - 1) * pageSize + 1;
+
+  return (
+    <>
+      <div className="p-3 border-bottom">
+        <InputGroup size="sm" className="mb-2">
+          <InputGroup.Text>
+            <FaSearch />
+          </InputGroup.Text>
+          <Form.Control
+            type="search"
+            placeholder="Search by name or email"
+            aria-label="Search staff"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+          />
+        </InputGroup>
+        <Row className="g-2">
+          <Col xs={6}>
+            <Form.Select
+              size="sm"
+              aria-label="Filter by role"
+              value={role}
+              onChange={(e) => {
+                setRole(e.target.value as Role | '');
+                setPage(1);
+              }}
+            >
+              <option value="">All roles</option>
+              <option value="ADMIN">Admins</option>
+              <option value="EMPLOYEE">Employees</option>
+            </Form.Select>
+          </Col>
+          <Col xs={6}>
+            <Form.Select
+              size="sm"
+              aria-label="Sort staff"
+              value={sort}
+              onChange={(e) => {
+                setSort(e.target.value as typeof sort);
+                setPage(1);
+              }}
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Form.Select>
+          </Col>
+        </Row>
+      </div>
+
+      {usersQuery.isFetching ? (
+        <div className="text-center py-5">
+          <Spinner animation="border" variant="primary" />
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-center text-muted py-4 mb-0">
+          {debouncedSearch || role ? 'No staff match your search.' : 'No staff yet.'}
+        </p>
+      ) : (
+        <ListGroup variant="flush" style={{ maxHeight, overflowY: 'auto' }}>
+          {users.map((user) => (
+            <ListGroup.Item
+              key={user.id}
+              action
+              className={`bank-user-list-item ${selectedId === user.id ? 'selected' : ''}`}
+              aria-pressed={selectedId === user.id}
+              onClick={() => onSelect(user)}
+            >
+              <div className="d-flex align-items-center">
+                <div className="bank-user-avatar">{user.name.charAt(0).toUpperCase()}</div>
+                <div className="text-truncate">
+                  <div className="fw-semibold">{user.name}</div>
+                  <small className="text-muted">
+                    {user.role === 'ADMIN' ? (
+                      <Badge bg="primary" pill>Admin</Badge>
+                    ) : (
+                      <Badge bg="secondary" pill>Employee</Badge>
+                    )}{' '}
+                    • {user.email}
+                  </small>
+                  {sortField === 'lastLogin' && (
+                    <div className="small text-muted">
+                      {user.lastLogin ? `Last login ${new Date(user.lastLogin).toLocaleString()}` : 'Never logged in'}
+                    </div>
+                  )}
+                </div>
+                <div className="ms-auto ps-2 text-end text-nowrap">
+                  <strong>{user.staffPoints?.toLocaleString() || '0'} pts</strong>
+                </div>
+              </div>
+            </ListGroup.Item>
+          ))}
+        </ListGroup>
+      )}
+
+      <div className="d-flex align-items-center justify-content-between p-3 border-top">
+        <small className="text-muted">
+          {firstShown}–{Math.min(page * pageSize, total)} of {total}
+        </small>
+        <Pagination size="sm" className="mb-0">
+          <Pagination.Prev onClick={() => setPage(page - 1)} disabled={page <= 1 || usersQuery.isFetching} />
+          <Pagination.Item active>
+            {page} / {totalPages}
+          </Pagination.Item>
+          <Pagination.Next onClick={() => setPage(page + 1)} disabled={page >= totalPages || usersQuery.isFetching} />
+        </Pagination>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Form, ListGroup, Modal, Spinner } from 'react-bootstrap';
+import type { AdminBalance, AllocatePointsPayload, StaffMember } from '../../services/types';
+
+interface Props {
+  transfer: AllocatePointsPayload | null;
+  recipient?: StaffMember;
+  balance: AdminBalance | null;
+  // Amount from which the admin must type the amount to confirm
+  confirmationThreshold: number;
+  // Amount above which the transfer is held for a second admin's approval
+  approvalThreshold: number;
+  submitting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function TransferReviewModal({
+  transfer,
+  recipient,
+  balance,
+  confirmationThreshold,
+  approvalThreshold,
+  submitting,
+  onConfirm,
+  onCancel,
+}: Props) {
+  const [typedAmount, setTypedAmount] = useState('');
+
+  useEffect(() => {
+    setTypedAmount('');
+  }, [transfer]);
+
+  const amount = Number(transfer?.amount ?? 0);
+  const available = balance?.availablePoints ?? 0;
+  const availableAfter = available - amount;
+  const recipientBefore = recipient?.staffPoints ?? 0;
+  const exceedsBalance = !!balance && amount > available;
+  const needsTypedConfirmation = amount >= confirmationThreshold;
+  const typedConfirmed = !needsTypedConfirmation || Number(typedAmount) === amount;
+  const needsApproval = amount > approvalThreshold;
+
+  return (
+    <Modal show={!!transfer} onHide={submitting ? undefined : onCancel} centered backdrop={submitting ? 'static' : true}>
+      <Modal.Header closeButton={!submitting}>
+        <Modal.Title>Review transfer</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <ListGroup variant="flush" className="mb-3">
+          <ListGroup.Item className="d-flex justify-content-between">
+            <span className="text-muted">Recipient</span>
+            <strong>{recipient ? `${recipient.name} (${recipient.email})` : `User #${transfer?.recipientId}`}</strong>
+          </ListGroup.Item>
+          <ListGroup.Item className="d-flex justify-content-between">
+            <span className="text-muted">Amount</span>
+            <strong className="text-primary">{amount.toLocaleString()} pts</strong>
+          </ListGroup.Item>
+          {transfer?.note && (
+            <ListGroup.Item className="d-flex justify-content-between">
+              <span className="text-muted">Note</span>
+              <span className="text-end ms-3">{transfer.note}</span>
+            </ListGroup.Item>
+          )}
+          <ListGroup.Item className="d-flex justify-content-between">
+            <span className="text-muted">Your available balance</span>
+            <span>
+              {available.toLocaleString()} → <strong className={exceedsBalance ? 'text-danger' : ''}>{availableAfter.toLocaleString()} pts</strong>
+            </span>
+          </ListGroup.Item>
+          <ListGroup.Item className="d-flex justify-content-between">
+            <span className="text-muted">Recipient's balance</span>
+            <span>
+              {recipientBefore.toLocaleString()} → <strong className="text-success">{(recipientBefore + amount).toLocaleString()} pts</strong>
+            </span>
+          </ListGroup.Item>
+        </ListGroup>
+
+        {needsApproval && !exceedsBalance && (
+          <Alert variant="info">
+            Transfers above {approvalThreshold.toLocaleString()} pts need approval from another admin. The points move
+            once it is approved.
+          </Alert>
+        )}
+
+        {exceedsBalance && (
+          <Alert variant="danger" className="mb-0">
+            This transfer exceeds your available balance of {available.toLocaleString()} pts.
+          </Alert>
+        )}
+
+        {!exceedsBalance && needsTypedConfirmation && (
+          <Form.Group>
+            <Form.Label>
+              This is a large transfer. Type <strong>{amount}</strong> to confirm.
+            </Form.Label>
+            <Form.Control
+              type="text"
+              inputMode="numeric"
+              value={typedAmount}
+              onChange={(e) => setTypedAmount(e.target.value.trim())}
+              autoFocus
+              isInvalid={typedAmount !== '' && !typedConfirmed}
+            />
+          </Form.Group>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="outline-secondary" onClick={onCancel} disabled={submitting}>
+          Back
+        </Button>
+        <Button className="bank-primary" onClick={onConfirm} disabled={submitting || exceedsBalance || !typedConfirmed}>
+          {submitting ? <Spinner size="sm" animation="border" /> : needsApproval ? 'Request approval' : 'Confirm transfer'}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
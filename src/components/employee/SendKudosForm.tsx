@@ -0,0 +1,184 @@
+import React, { useRef } from 'react';
+import { Button, Card, Col, Form, ProgressBar, Row, Spinner } from 'react-bootstrap';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { FaHandsHelping } from 'react-icons/fa';
+import { useApiErrorToast, useAppDispatch, useAppSelector } from '../../hooks';
+import { refreshProfile } from '../../features/auth/authSlice';
+import { useGetColleaguesQuery, useGetKudosLimitsQuery, useSendKudosMutation } from '../../features/kudos/kudosApi';
+import type { SendKudosPayload } from '../../services/types';
+import { createIdempotencyKey } from '../../utils/idempotency';
+import { notifyApiError } from '../../utils/apiError';
+
+interface KudosContext {
+  // Most the sender may still send: the lower of their balance and what is left of the period limit
+  maxAmount?: number;
+}
+
+const schema = yup.object({
+  recipientId: yup.number().typeError('Recipient is required').required('Recipient is required').positive('Recipient is required').integer(),
+  amount: yup
+    .number()
+    .typeError('Amount is required')
+    .required('Amount is required')
+    .integer()
+    .min(1, 'Amount must be at least 1')
+    .test('within-limit', 'Amount exceeds what you can send this period', function (value) {
+      const { maxAmount } = (this.options.context ?? {}) as KudosContext;
+      return maxAmount === undefined || value === undefined || value <= maxAmount;
+    }),
+  note: yup
+    .string()
+    .trim()
+    .required('Tell them what the kudos is for')
+    .min(3, 'Note must be at least 3 characters')
+    .max(100, 'Note must be less than 100 characters'),
+});
+
+const PERIOD_LABELS = { WEEK: 'this week', MONTH: 'this month' } as const;
+
+export default function SendKudosForm() {
+  const { user } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
+
+  const colleaguesQuery = useGetColleaguesQuery();
+  const limitsQuery = useGetKudosLimitsQuery();
+  const [sendKudos, sending] = useSendKudosMutation();
+  useApiErrorToast(colleaguesQuery.error, 'Failed to fetch colleagues');
+  useApiErrorToast(limitsQuery.error, 'Failed to fetch kudos limits');
+
+  const limits = limitsQuery.data;
+  const colleagues = (colleaguesQuery.data ?? []).filter((c) => c.id !== user?.id);
+  const remainingPoints = limits ? Math.max(0, limits.maxPoints - limits.sentPoints) : undefined;
+  const transfersExhausted = !!limits && limits.maxTransfers !== null && limits.sentTransfers >= limits.maxTransfers;
+  const maxAmount =
+    remainingPoints === undefined ? user?.staffPoints : Math.min(remainingPoints, user?.staffPoints ?? remainingPoints);
+  const canSend = !!limits && !transfersExhausted && (maxAmount ?? 0) > 0;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<SendKudosPayload>({
+    resolver: yupResolver(schema),
+    context: { maxAmount } as KudosContext,
+    defaultValues: { amount: 10, note: '' },
+  });
+
+  // Same payload resubmitted after a failure keeps its key, so it is applied at most once
+  const lastAttempt = useRef<{ fingerprint: string; idempotencyKey: string } | null>(null);
+
+  const onSubmit = (data: SendKudosPayload) => {
+    if (sending.isLoading) return;
+
+    const fingerprint = JSON.stringify([data.recipientId, data.amount, data.note]);
+    if (lastAttempt.current?.fingerprint !== fingerprint) {
+      lastAttempt.current = { fingerprint, idempotencyKey: createIdempotencyKey() };
+    }
+
+    sendKudos({ payload: data, idempotencyKey: lastAttempt.current.idempotencyKey })
+      .unwrap()
+      .then(() => {
+        const name = colleagues.find((c) => c.id === Number(data.recipientId))?.name ?? 'your colleague';
+        toast.success(`Sent ${data.amount} points to ${name}`);
+        lastAttempt.current = null;
+        reset();
+        // Refresh the sender's balance
+        dispatch(refreshProfile());
+      })
+      .catch((error) => notifyApiError(error, 'Failed to send kudos'));
+  };
+
+  return (
+    <Card className="bank-card">
+      <Card.Header className="bank-card-header d-flex align-items-center">
+        <FaHandsHelping className="bank-icon" />
+        <span>Send Kudos</span>
+      </Card.Header>
+      <Card.Body>
+        {limits && (
+          <div className="mb-3">
+            <div className="d-flex justify-content-between small text-muted mb-1">
+              <span>
+                {limits.sentPoints.toLocaleString()} of {limits.maxPoints.toLocaleString()} pts sent {PERIOD_LABELS[limits.period]}
+                {limits.maxTransfers !== null && ` · ${limits.sentTransfers}/${limits.maxTransfers} kudos`}
+              </span>
+              <span>Resets {new Date(limits.periodEndsAt).toLocaleDateString()}</span>
+            </div>
+            <ProgressBar
+              now={limits.maxPoints > 0 ? (limits.sentPoints / limits.maxPoints) * 100 : 100}
+              variant={canSend ? 'success' : 'danger'}
+              style={{ height: '6px' }}
+            />
+          </div>
+        )}
+
+        {limits && !canSend && (
+          <p className="text-muted small">
+            {transfersExhausted || remainingPoints === 0
+              ? `You have reached your kudos limit ${PERIOD_LABELS[limits.period]}.`
+              : 'You have no points available to send.'}
+          </p>
+        )}
+
+        <Form onSubmit={handleSubmit(onSubmit)} noValidate>
+          <fieldset disabled={!canSend || sending.isLoading}>
+            <Row className="g-3">
+              <Col md={6}>
+                <Form.Group>
+                  <Form.Label>Colleague</Form.Label>
+                  <Form.Select {...register('recipientId')} className={`bank-form-control ${errors.recipientId ? 'is-invalid' : ''}`}>
+                    <option value="">Select colleague</option>
+                    {colleagues.map((colleague) => (
+                      <option key={colleague.id} value={colleague.id}>
+                        {colleague.name} ({colleague.email})
+                      </option>
+                    ))}
+                  </Form.Select>
+                  {errors.recipientId && <div className="invalid-feedback">{errors.recipientId.message}</div>}
+                </Form.Group>
+              </Col>
+              <Col md={6}>
+                <Form.Group>
+                  <Form.Label>Points</Form.Label>
+                  <Form.Control
+                    type="number"
+                    min={1}
+                    max={maxAmount}
+                    {...register('amount')}
+                    className={`bank-form-control ${errors.amount ? 'is-invalid' : ''}`}
+                  />
+                  {errors.amount && <div className="invalid-feedback">{errors.amount.message}</div>}
+                  {maxAmount !== undefined && canSend && (
+                    <Form.Text>You can send up to {maxAmount.toLocaleString()} pts</Form.Text>
+                  )}
+                </Form.Group>
+              </Col>
+              <Col xs={12}>
+                <Form.Group>
+                  <Form.Label>What is it for?</Form.Label>
+                  <Form.Control
+                    as="textarea"
+                    rows={2}
+                    {...register('note')}
+                    className={`bank-form-control ${errors.note ? 'is-invalid' : ''}`}
+                    placeholder="Thanks for covering my duty on Friday!"
+                  />
+                  {errors.note && <div className="invalid-feedback">{errors.note.message}</div>}
+                </Form.Group>
+              </Col>
+              <Col xs={12}>
+                <Button type="submit" className="bank-primary">
+                  {sending.isLoading ? <Spinner size="sm" animation="border" /> : 'Send Kudos'}
+                </Button>
+              </Col>
+            </Row>
+          </fieldset>
+        </Form>
+      </Card.Body>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Button, Col, Form, Modal, Row, Spinner } from 'react-bootstrap';
+import { useAppSelector } from '../../hooks';
+import { fetchAllTransactions, fetchMyTransactions } from '../../services/transactions';
+import { buildLedgerStatement } from '../../features/transactions/statement';
+import { downloadStatementPdf } from '../../features/transactions/statementPdf';
+import { notifyApiError } from '../../utils/apiError';
+import { toDateInput } from '../../utils/dates';
+
+interface Props {
+  show: boolean;
+  onClose: () => void;
+}
+
+export default function StatementDownloadModal({ show, onClose }: Props) {
+  const { user } = useAppSelector((state) => state.auth);
+  const today = new Date();
+  const [from, setFrom] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [to, setTo] = useState(toDateInput(today));
+  const [generating, setGenerating] = useState(false);
+
+  const invalidRange = !!from && !!to && from > to;
+
+  const download = async () => {
+    if (!user || invalidRange) return;
+    setGenerating(true);
+    try {
+      // The opening balance is derived from the full history, not just the period
+      const transactions = await fetchAllTransactions(fetchMyTransactions, { sort: 'timestamp', order: 'asc' });
+      const period = { from: from || undefined, to: to || undefined };
+      const statement = buildLedgerStatement(transactions, user.id, period);
+      await downloadStatementPdf(`statement-${from || 'start'}-to-${to || 'today'}.pdf`, user, period, statement);
+      onClose();
+    } catch (error) {
+      notifyApiError(error, 'Failed to generate statement');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={generating ? undefined : onClose} centered>
+      <Modal.Header closeButton={!generating}>
+        <Modal.Title>Download statement</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <p className="text-muted small">
+          A PDF with your opening balance, each transaction with the running balance, and your closing balance.
+        </p>
+        <Row className="g-3">
+          <Col xs={6}>
+            <Form.Group>
+              <Form.Label>From</Form.Label>
+              <Form.Control type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+            </Form.Group>
+          </Col>
+          <Col xs={6}>
+            <Form.Group>
+              <Form.Label>To</Form.Label>
+              <Form.Control type="date" value={to} isInvalid={invalidRange} onChange={(e) => setTo(e.target.value)} />
+              <Form.Control.Feedback type="invalid">Must be on or after the start date</Form.Control.Feedback>
+            </Form.Group>
+          </Col>
+        </Row>
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="outline-secondary" onClick={onClose} disabled={generating}>
+          Cancel
+        </Button>
+        <Button onClick={download} disabled={generating || invalidRange}>
+          {generating ? <Spinner size="sm" animation="border" /> : 'Download PDF'}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, Button, ButtonGroup, Col, Form, Row, Spinner, Table } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import { useApiErrorToast, useAppDispatch, useAppSelector } from '../../hooks';
+import { refreshProfile } from '../../features/auth/authSlice';
+import { useGetAllMyTransactionsQuery } from '../../features/transactions/transactionsApi';
+import {
+  buildLedgerStatement,
+  computeLedgerBalance,
+  groupStatement,
+  SubtotalGrouping,
+} from '../../features/transactions/statement';
+import TransactionBadges from '../TransactionBadges';
+
+const formatChange = (value: number) => `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+
+// Running-balance view of the signed-in employee's full history
+export default function StatementView() {
+  const { user } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
+  const historyQuery = useGetAllMyTransactionsQuery(undefined, { refetchOnMountOrArgChange: true });
+  useApiErrorToast(historyQuery.error, 'Failed to fetch transactions');
+
+  // staffPoints is cached at login; fetch the current value before reconciling against it
+  const [balanceRefreshed, setBalanceRefreshed] = useState(false);
+  const [refreshingUser, setRefreshingUser] = useState(false);
+  useEffect(() => {
+    dispatch(refreshProfile()).then((action) => setBalanceRefreshed(refreshProfile.fulfilled.match(action)));
+  }, [dispatch]);
+
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [grouping, setGrouping] = useState<SubtotalGrouping>('month');
+
+  const transactions = historyQuery.data;
+  const ledgerBalance = useMemo(
+    () => (transactions && user ? computeLedgerBalance(transactions, user.id) : null),
+    [transactions, user]
+  );
+
+  // Balances come from the ledger itself, so a stale or wrong staffPoints cannot skew them
+  const statement = useMemo(
+    () =>
+      transactions && user
+        ? buildLedgerStatement(transactions, user.id, { from: from || undefined, to: to || undefined })
+        : null,
+    [transactions, user, from, to]
+  );
+  const subtotals = useMemo(() => (statement ? groupStatement(statement.entries, grouping) : []), [statement, grouping]);
+
+  const mismatch =
+    balanceRefreshed && !historyQuery.isFetching && ledgerBalance !== null && !!user && ledgerBalance !== user.staffPoints;
+
+  const refresh = () => {
+    setRefreshingUser(true);
+    dispatch(refreshProfile())
+      .unwrap()
+      .catch((message: string) => toast.error(message))
+      .finally(() => setRefreshingUser(false));
+    historyQuery.refetch();
+  };
+
+  if (historyQuery.isLoading || !user) {
+    return (
+      <div className="text-center py-5">
+        <Spinner animation="border" variant="primary" />
+      </div>
+    );
+  }
+
+  if (!statement) return null;
+
+  return (
+    <div className="p-3">
+      {mismatch && (
+        <Alert variant="warning" className="d-flex align-items-center">
+          <div>
+            Your transactions add up to <strong>{ledgerBalance?.toLocaleString()} pts</strong>, but your account shows{' '}
+            <strong>{user.staffPoints.toLocaleString()} pts</strong>. Refresh your balance; if the difference remains,
+            contact an administrator.
+          </div>
+          <Button size="sm" variant="outline-dark" className="ms-auto" onClick={refresh} disabled={refreshingUser}>
+            {refreshingUser ? <Spinner size="sm" animation="border" /> : 'Refresh'}
+          </Button>
+        </Alert>
+      )}
+
+      <Row className="g-2 align-items-end mb-3">
+        <Col xs={6} md={3}>
+          <Form.Label className="small text-muted mb-1">From</Form.Label>
+          <Form.Control size="sm" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+        </Col>
+        <Col xs={6} md={3}>
+          <Form.Label className="small text-muted mb-1">To</Form.Label>
+          <Form.Control size="sm" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+        </Col>
+        <Col md={6} className="text-md-end">
+          <span className="small text-muted me-2">Subtotals by</span>
+          <ButtonGroup size="sm">
+            {(['week', 'month'] as SubtotalGrouping[]).map((value) => (
+              <Button
+                key={value}
+                variant={grouping === value ? 'primary' : 'outline-primary'}
+                onClick={() => setGrouping(value)}
+              >
+                {value === 'week' ? 'Week' : 'Month'}
+              </Button>
+            ))}
+          </ButtonGroup>
+        </Col>
+      </Row>
+
+      <Row className="g-3 mb-3 text-center">
+        <Col xs={6} md={3}>
+          <div className="small text-muted">Opening balance</div>
+          <div className="fw-bold">{statement.openingBalance.toLocaleString()} pts</div>
+        </Col>
+        <Col xs={6} md={3}>
+          <div className="small text-muted">Received</div>
+          <div className="fw-bold bank-transaction-positive">+{statement.received.toLocaleString()}</div>
+        </Col>
+        <Col xs={6} md={3}>
+          <div className="small text-muted">Sent</div>
+          <div className="fw-bold bank-transaction-negative">-{statement.sent.toLocaleString()}</div>
+        </Col>
+        <Col xs={6} md={3}>
+          <div className="small text-muted">Closing balance</div>
+          <div className="fw-bold">{statement.closingBalance.toLocaleString()} pts</div>
+        </Col>
+      </Row>
+
+      {subtotals.length > 0 && (
+        <Table size="sm" bordered className="mb-4">
+          <thead className="table-light">
+            <tr>
+              <th>Period</th>
+              <th className="text-end">Received</th>
+              <th className="text-end">Sent</th>
+              <th className="text-end">Net</th>
+              <th className="text-end">Balance at end</th>
+            </tr>
+          </thead>
+          <tbody>
+            {subtotals.map((subtotal) => (
+              <tr key={subtotal.key}>
+                <td>{subtotal.label}</td>
+                <td className="text-end text-success">+{subtotal.received.toLocaleString()}</td>
+                <td className="text-end text-danger">-{subtotal.sent.toLocaleString()}</td>
+                <td className="text-end">{formatChange(subtotal.received - subtotal.sent)}</td>
+                <td className="text-end fw-semibold">{subtotal.closingBalance.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+
+      <div className="table-responsive" style={{ maxHeight: '400px', overflowY: 'auto' }}>
+        <Table hover className="align-middle mb-0">
+          <thead style={{ position: 'sticky', top: 0, backgroundColor: 'white', zIndex: 1 }}>
+            <tr>
+              <th>Date</th>
+              <th>Description</th>
+              <th className="text-end">Change</th>
+              <th className="text-end">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="table-light">
+              <td></td>
+              <td className="fw-medium">Opening balance</td>
+              <td></td>
+              <td className="text-end fw-semibold">{statement.openingBalance.toLocaleString()}</td>
+            </tr>
+            {statement.entries.map(({ transaction, change, balance }) => (
+              <tr key={transaction.id}>
+                <td className="small">{new Date(transaction.timestamp).toLocaleString()}</td>
+                <td>
+                  {change > 0 ? `From ${transaction.senderName}` : `To ${transaction.recipientName}`}
+                  <TransactionBadges transaction={transaction} />
+                </td>
+                <td className={`text-end ${change > 0 ? 'bank-transaction-positive' : 'bank-transaction-negative'}`}>
+                  {formatChange(change)}
+                </td>
+                <td className="text-end fw-semibold">{balance.toLocaleString()}</td>
+              </tr>
+            ))}
+            {statement.entries.length === 0 && (
+              <tr>
+                <td colSpan={4} className="text-center text-muted py-4">
+                  No transactions in this period.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { toBoolean, toPositiveNumber } from './config';
+
+describe('toPositiveNumber', () => {
+  it('accepts positive numbers and numeric strings', () => {
+    expect(toPositiveNumber(15, 1)).toBe(15);
+    expect(toPositiveNumber('2.5', 1)).toBe(2.5);
+  });
+
+  it('falls back on zero, negative, empty and non-numeric values', () => {
+    [0, -5, '', '  ', 'ten', null, undefined, NaN, Infinity].forEach((value) => {
+      expect(toPositiveNumber(value, 30)).toBe(30);
+    });
+  });
+});
+
+describe('toBoolean', () => {
+  it('accepts booleans and their string forms', () => {
+    expect(toBoolean(true, false)).toBe(true);
+    expect(toBoolean('false', true)).toBe(false);
+    expect(toBoolean('true', false)).toBe(true);
+  });
+
+  it('falls back on anything else', () => {
+    ['yes', '1', 'TRUE', '', null, undefined, 1].forEach((value) => {
+      expect(toBoolean(value, true)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// Application configuration.
+// Values come from build-time REACT_APP_* variables and can be overridden at
+// runtime by a config.json served next to index.html.
+
+export const PRODUCTION_API_URL = 'https://backend-g4qt.onrender.com';
+
+export interface AppConfig {
+  apiUrl: string;
+  environment: string;
+  // Inactivity allowed before automatic sign-out, per role
+  idleTimeoutAdminMinutes: number;
+  idleTimeoutEmployeeMinutes: number;
+  // Length of the countdown shown before signing out
+  idleWarningSeconds: number;
+  // When false, accounts can only be created from an admin invitation
+  publicRegistration: boolean;
+  // Transfers of at least this many points must be confirmed by typing the amount
+  transferConfirmationThreshold: number;
+  // Allocations above this many points wait for a second admin's approval
+  approvalThreshold: number;
+  // How often admins poll for allocation requests awaiting their approval
+  approvalPollSeconds: number;
+}
+
+type RuntimeConfig = Partial<Record<keyof AppConfig, unknown>>;
+
+const buildApiUrl = process.env.REACT_APP_API_URL || PRODUCTION_API_URL;
+
+export const toPositiveNumber = (value: unknown, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const toBoolean = (value: unknown, fallback: boolean) => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return fallback;
+};
+
+let config: AppConfig = {
+  apiUrl: buildApiUrl,
+  environment: process.env.REACT_APP_ENVIRONMENT || (buildApiUrl === PRODUCTION_API_URL ? 'production' : 'development'),
+  idleTimeoutAdminMinutes: toPositiveNumber(process.env.REACT_APP_IDLE_TIMEOUT_ADMIN_MINUTES, 10),
+  idleTimeoutEmployeeMinutes: toPositiveNumber(process.env.REACT_APP_IDLE_TIMEOUT_EMPLOYEE_MINUTES, 30),
+  idleWarningSeconds: toPositiveNumber(process.env.REACT_APP_IDLE_WARNING_SECONDS, 60),
+  publicRegistration: toBoolean(process.env.REACT_APP_PUBLIC_REGISTRATION, true),
+  transferConfirmationThreshold: toPositiveNumber(process.env.REACT_APP_TRANSFER_CONFIRMATION_THRESHOLD, 1000),
+  approvalThreshold: toPositiveNumber(process.env.REACT_APP_APPROVAL_THRESHOLD, 5000),
+  approvalPollSeconds: toPositiveNumber(process.env.REACT_APP_APPROVAL_POLL_SECONDS, 60),
+};
+
+const pickString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+export const getConfig = (): AppConfig => config;
+
+export const isProduction = () => config.environment === 'production';
+
+// Fetches /config.json; a missing or invalid file keeps the build-time values
+export const loadRuntimeConfig = async (): Promise<AppConfig> => {
+  try {
+    const res = await fetch(`${process.env.PUBLIC_URL}/config.json`, { cache: 'no-store' });
+    if (!res.ok) return config;
+
+    const runtime: RuntimeConfig = await res.json();
+    const apiUrl = pickString(runtime.apiUrl);
+    const environment = pickString(runtime.environment);
+
+    config = {
+      apiUrl: apiUrl || config.apiUrl,
+      environment: environment || (apiUrl && apiUrl !== PRODUCTION_API_URL ? 'custom' : config.environment),
+      idleTimeoutAdminMinutes: toPositiveNumber(runtime.idleTimeoutAdminMinutes, config.idleTimeoutAdminMinutes),
+      idleTimeoutEmployeeMinutes: toPositiveNumber(runtime.idleTimeoutEmployeeMinutes, config.idleTimeoutEmployeeMinutes),
+      idleWarningSeconds: toPositiveNumber(runtime.idleWarningSeconds, config.idleWarningSeconds),
+      publicRegistration: toBoolean(runtime.publicRegistration, config.publicRegistration),
+      transferConfirmationThreshold: toPositiveNumber(
+        runtime.transferConfirmationThreshold,
+        config.transferConfirmationThreshold
+      ),
+      approvalThreshold: toPositiveNumber(runtime.approvalThreshold, config.approvalThreshold),
+      approvalPollSeconds: toPositiveNumber(runtime.approvalPollSeconds, config.approvalPollSeconds),
+    };
+  } catch {
+    // Dev servers answer unknown paths with index.html, which is not JSON
+  }
+  return config;
+};
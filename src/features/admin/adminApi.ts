@@ -0,0 +1,18 @@
+import { apiSlice, fromService } from '../api/apiSlice';
+import { fetchAdminBalance, initializeAdminPoints } from '../../services/admin';
+import type { AdminBalance } from '../../services/types';
+
+export const adminApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    getAdminBalance: builder.query<AdminBalance, void>({
+      queryFn: () => fromService(fetchAdminBalance, 'Failed to fetch balance'),
+      providesTags: ['AdminBalance'],
+    }),
+    initializeAdminPoints: builder.mutation<void, void>({
+      queryFn: () => fromService(initializeAdminPoints, 'Failed to initialize admin points'),
+      invalidatesTags: ['AdminBalance', { type: 'User', id: 'LIST' }],
+    }),
+  }),
+});
+
+export const { useGetAdminBalanceQuery, useInitializeAdminPointsMutation } = adminApi;
@@ -0,0 +1,59 @@
+import { useMemo } from 'react';
+import { apiSlice, fromService } from '../api/apiSlice';
+import { useAppSelector } from '../../hooks';
+import { getConfig } from '../../config';
+import {
+  AllocationRequestParams,
+  approveAllocationRequest,
+  fetchAllocationRequests,
+  rejectAllocationRequest,
+} from '../../services/allocationRequests';
+import type {
+  AllocationRequest,
+  AllocationResult,
+  Paginated,
+  RejectAllocationRequestPayload,
+} from '../../services/types';
+
+export const allocationRequestsApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    getAllocationRequests: builder.query<Paginated<AllocationRequest>, AllocationRequestParams>({
+      queryFn: (params) => fromService(() => fetchAllocationRequests(params), 'Failed to fetch allocation requests'),
+      providesTags: [{ type: 'AllocationRequest', id: 'LIST' }],
+    }),
+    // An approval moves points, so it refreshes everything an allocation does
+    approveAllocationRequest: builder.mutation<AllocationResult, { id: number; idempotencyKey: string }>({
+      queryFn: ({ id, idempotencyKey }) =>
+        fromService(() => approveAllocationRequest(id, idempotencyKey), 'Failed to approve request'),
+      invalidatesTags: (_result, error) =>
+        error
+          ? ['AllocationRequest']
+          : ['AllocationRequest', { type: 'User', id: 'LIST' }, { type: 'Transaction', id: 'LIST' }, 'AdminBalance'],
+    }),
+    rejectAllocationRequest: builder.mutation<AllocationRequest, { id: number; payload: RejectAllocationRequestPayload }>({
+      queryFn: ({ id, payload }) => fromService(() => rejectAllocationRequest(id, payload), 'Failed to reject request'),
+      invalidatesTags: ['AllocationRequest'],
+    }),
+  }),
+});
+
+export const {
+  useGetAllocationRequestsQuery,
+  useApproveAllocationRequestMutation,
+  useRejectAllocationRequestMutation,
+} = allocationRequestsApi;
+
+// Shared by the dashboard panel and the navbar so both read one polled cache entry
+const PENDING_PARAMS: AllocationRequestParams = { status: 'PENDING', page: 1, limit: 50 };
+
+export const usePendingApprovals = ({ skip = false }: { skip?: boolean } = {}) => {
+  const userId = useAppSelector((state) => state.auth.user?.id);
+  const query = useGetAllocationRequestsQuery(PENDING_PARAMS, {
+    skip,
+    pollingInterval: getConfig().approvalPollSeconds * 1000,
+  });
+  const requests = useMemo(() => query.data?.items ?? [], [query.data]);
+  // Requests the signed-in admin may decide on; their own must go to someone else
+  const actionable = useMemo(() => requests.filter((r) => r.requestedById !== userId), [requests, userId]);
+  return { ...query, requests, actionable };
+};
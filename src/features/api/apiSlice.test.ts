@@ -0,0 +1,49 @@
+import { configureStore } from '@reduxjs/toolkit';
+import authReducer, { sessionExpired, sessionSynced, User } from '../auth/authSlice';
+import { usersApi } from '../users/usersApi';
+import { apiCacheListener, apiSlice } from './apiSlice';
+
+const jane: User = { id: 1, email: 'jane@school.edu', name: 'Jane', role: 'ADMIN', staffPoints: 0 };
+const john: User = { id: 2, email: 'john@school.edu', name: 'John', role: 'ADMIN', staffPoints: 0 };
+
+const setup = async () => {
+  const store = configureStore({
+    reducer: { auth: authReducer, [apiSlice.reducerPath]: apiSlice.reducer },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware().prepend(apiCacheListener.middleware).concat(apiSlice.middleware),
+  });
+  store.dispatch(sessionSynced({ user: jane, token: 'token-1' }));
+  await store.dispatch(usersApi.util.upsertQueryData('getUsers', {}, { items: [], total: 0, page: 1, totalPages: 1 }));
+  const cached = () => usersApi.endpoints.getUsers.select({})(store.getState()).data;
+  return { store, cached };
+};
+
+describe('apiCacheListener', () => {
+  it('keeps the cache when another tab only refreshes the same user’s session', async () => {
+    const { store, cached } = await setup();
+    expect(cached()).toBeDefined();
+
+
+    store.dispatch(sessionSynced({ user: { ...jane, staffPoints: 50 }, token: 'token-2' }));
+
+    expect(cached()).toBeDefined();
+  });
+
+  it('drops the cache when another tab signs in as someone else or signs out', async () => {
+    const { store, cached } = await setup();
+    store.dispatch(sessionSynced({ user: john, token: 'token-3' }));
+    expect(cached()).toBeUndefined();
+
+    const other = await setup();
+    other.store.dispatch(sessionSynced({ user: null, token: null }));
+    expect(other.cached()).toBeUndefined();
+  });
+
+  it('drops the cache when the session expires', async () => {
+    const { store, cached } = await setup();
+
+    store.dispatch(sessionExpired());
+
+    expect(cached()).toBeUndefined();
+  });
+});
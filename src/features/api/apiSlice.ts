@@ -0,0 +1,43 @@
+import { createListenerMiddleware, isAnyOf } from '@reduxjs/toolkit';
+import { createApi, fakeBaseQuery } from '@reduxjs/toolkit/query/react';
+import { AuthState, logoutUser, sessionExpired, sessionSynced } from '../auth/authSlice';
+import { SerializedApiError, serializeApiError } from '../../utils/apiError';
+
+// Root RTK Query slice. Endpoints are injected per feature (see features/*/…Api.ts)
+// and delegate the HTTP work to src/services so auth, refresh and error handling stay in one place.
+export const apiSlice = createApi({
+  reducerPath: 'api',
+  baseQuery: fakeBaseQuery<SerializedApiError>(),
+  tagTypes: ['User', 'Transaction', 'AdminBalance', 'Invitation', 'KudosLimits', 'AllocationRequest', 'Reward', 'Redemption', 'AllocationSchedule'],
+  endpoints: () => ({}),
+});
+
+// Adapts a service call to the { data } | { error } shape RTK Query expects
+export const fromService = async <T>(call: () => Promise<T>, fallbackMessage: string) => {
+  try {
+    return { data: await call() };
+  } catch (error) {
+    return { error: serializeApiError(error, fallbackMessage) };
+  }
+};
+
+// Cached data belongs to the signed-in user; drop it when the session ends or changes hands
+export const apiCacheListener = createListenerMiddleware();
+
+apiCacheListener.startListening({
+  matcher: isAnyOf(logoutUser.fulfilled, logoutUser.rejected, sessionExpired),
+  effect: (_, listenerApi) => {
+    listenerApi.dispatch(apiSlice.util.resetApiState());
+  },
+});
+
+// Other tabs also broadcast every token refresh and profile reload; only a change of user matters here
+apiCacheListener.startListening({
+  actionCreator: sessionSynced,
+  effect: (action, listenerApi) => {
+    const previousUserId = (listenerApi.getOriginalState() as { auth: AuthState }).auth.user?.id;
+    if (action.payload.user?.id !== previousUserId) {
+      listenerApi.dispatch(apiSlice.util.resetApiState());
+    }
+  },
+});
@@ -0,0 +1,40 @@
+import reducer, { AuthState, getMe, refreshProfile, User } from './authSlice';
+
+const user: User = {
+  id: 7,
+  name: 'Ada',
+  email: 'ada@example.com',
+  role: 'EMPLOYEE',
+  staffPoints: 100,
+};
+
+const signedIn: AuthState = {
+  user,
+  token: 'token',
+  isAuthenticated: true,
+  error: null,
+  loading: false,
+  sessionExpired: false,
+  initialized: true,
+};
+
+describe('refreshProfile', () => {
+  it('replaces the cached user with the fresh one', () => {
+    const fresh = { ...user, staffPoints: 80 };
+    const state = reducer(signedIn, refreshProfile.fulfilled(fresh, 'request'));
+
+    expect(state).toEqual({ ...signedIn, user: fresh });
+  });
+
+  it('leaves the session alone when the request fails', () => {
+    const state = reducer(signedIn, refreshProfile.rejected(null, 'request', undefined, 'Network Error'));
+
+    expect(state).toEqual(signedIn);
+  });
+
+  it('differs from getMe, which signs the user out on failure', () => {
+    const state = reducer(signedIn, getMe.rejected(null, 'request', undefined, 'Unauthorized'));
+
+    expect(state).toMatchObject({ user: null, token: null, isAuthenticated: false });
+  });
+});
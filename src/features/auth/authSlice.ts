@@ -1,19 +1,40 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import api from '../../utils/axios';
+import type { Role } from '../../services/types';
+import { clearAuth, getStoredToken, getStoredUser, saveAuth, saveUser } from '../../utils/authStorage';
+import { toApiError } from '../../utils/apiError';
 
 // Types
 export interface User {
   id: number;
   email: string;
   name: string;
-  role: 'ADMIN' | 'EMPLOYEE';
+  role: Role;
   staffPoints: number;
+  twoFactorEnabled?: boolean;
 }
 
 export interface AuthResponse {
   message: string;
   user: User;
   accessToken: string;
+  refreshToken?: string;
+}
+
+// Returned by /auth/login instead of a session when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  message: string;
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+export const isTwoFactorChallenge = (response: LoginResponse): response is TwoFactorChallenge =>
+  'twoFactorRequired' in response && response.twoFactorRequired;
+
+export interface MessageResponse {
+  message: string;
 }
 
 export interface AuthState {
@@ -22,59 +43,85 @@ export interface AuthState {
   isAuthenticated: boolean;
   error: string | null;
   loading: boolean;
+  sessionExpired: boolean;
+  // False until a stored token has been verified with getMe on boot
+  initialized: boolean;
 }
 
-// Helpers
-const saveAuthToLocalStorage = (user: User, token: string) => {
-  localStorage.setItem('user', JSON.stringify(user));
-  localStorage.setItem('token', token);
-};
-
-const clearAuthFromLocalStorage = () => {
-  localStorage.removeItem('user');
-  localStorage.removeItem('token');
-};
-
 // Initial State
-const storedUser = localStorage.getItem('user');
-const storedToken = localStorage.getItem('token');
+const storedToken = getStoredToken();
 
 const initialState: AuthState = {
-  user: storedUser ? JSON.parse(storedUser) : null,
+  user: getStoredUser(),
   token: storedToken || null,
   isAuthenticated: !!storedToken,
   error: null,
   loading: false,
+  sessionExpired: false,
+  initialized: !storedToken,
 };
 
 // Async Thunks
 export const registerUser = createAsyncThunk<
   AuthResponse,
-  { name: string; email: string; password: string; role: string },
+  { name: string; email: string; password: string },
   { rejectValue: string }
 >('auth/registerUser', async (data, { rejectWithValue }) => {
   try {
-    const res = await api.post<AuthResponse>('/auth/register', data);
-    saveAuthToLocalStorage(res.data.user, res.data.accessToken);
+    // Public sign-up only ever creates employees; admins are invited
+    const res = await api.post<AuthResponse>('/auth/register', { ...data, role: 'EMPLOYEE' });
+    saveAuth(res.data.user, res.data.accessToken, res.data.refreshToken);
     api.defaults.headers.common['Authorization'] = `Bearer ${res.data.accessToken}`;
     return res.data;
-  } catch (err: any) {
-    return rejectWithValue(err.response?.data?.error || 'Registration failed');
+  } catch (err) {
+    return rejectWithValue(toApiError(err, 'Registration failed').message);
   }
 });
 
-export const loginUser = createAsyncThunk<
+export const acceptInvite = createAsyncThunk<
   AuthResponse,
+  { code: string; name: string; password: string },
+  { rejectValue: string }
+>('auth/acceptInvite', async ({ code, ...data }, { rejectWithValue }) => {
+  try {
+    const res = await api.post<AuthResponse>(`/auth/accept-invite/${encodeURIComponent(code)}`, data);
+    saveAuth(res.data.user, res.data.accessToken, res.data.refreshToken);
+    api.defaults.headers.common['Authorization'] = `Bearer ${res.data.accessToken}`;
+    return res.data;
+  } catch (err) {
+    return rejectWithValue(toApiError(err, 'Could not accept invitation').message);
+  }
+});
+
+export const loginUser = createAsyncThunk<
+  LoginResponse,
   { email: string; password: string },
   { rejectValue: string }
 >('auth/loginUser', async (data, { rejectWithValue }) => {
   try {
-    const res = await api.post<AuthResponse>('/auth/login', data);
-    saveAuthToLocalStorage(res.data.user, res.data.accessToken);
+    const res = await api.post<LoginResponse>('/auth/login', data);
+    // A 2FA challenge carries no session yet; verifyTwoFactor completes the login
+    if (isTwoFactorChallenge(res.data)) return res.data;
+    saveAuth(res.data.user, res.data.accessToken, res.data.refreshToken);
+    api.defaults.headers.common['Authorization'] = `Bearer ${res.data.accessToken}`;
+    return res.data;
+  } catch (err) {
+    return rejectWithValue(toApiError(err, 'Invalid credentials').message);
+  }
+});
+
+export const verifyTwoFactor = createAsyncThunk<
+  AuthResponse,
+  { challengeToken: string; code: string },
+  { rejectValue: string }
+>('auth/verifyTwoFactor', async (data, { rejectWithValue }) => {
+  try {
+    const res = await api.post<AuthResponse>('/auth/2fa/verify', data);
+    saveAuth(res.data.user, res.data.accessToken, res.data.refreshToken);
     api.defaults.headers.common['Authorization'] = `Bearer ${res.data.accessToken}`;
     return res.data;
-  } catch (err: any) {
-    return rejectWithValue(err.response?.data?.error || 'Invalid credentials');
+  } catch (err) {
+    return rejectWithValue(toApiError(err, 'Invalid verification code').message);
   }
 });
 
@@ -83,24 +130,93 @@ export const getMe = createAsyncThunk<User, void, { rejectValue: string }>(
   async (_, { rejectWithValue }) => {
     try {
       const res = await api.get<User>('/auth/me');
-      saveAuthToLocalStorage(res.data, localStorage.getItem('token') || '');
+      saveUser(res.data);
+      return res.data;
+    } catch (err) {
+      clearAuth();
+      return rejectWithValue(toApiError(err, 'Failed to fetch user').message);
+    }
+  }
+);
+
+// Re-reads the signed-in user (e.g. a changed balance); unlike getMe, a failure leaves the session alone
+export const refreshProfile = createAsyncThunk<User, void, { rejectValue: string }>(
+  'auth/refreshProfile',
+  async (_, { rejectWithValue }) => {
+    try {
+      const res = await api.get<User>('/auth/me');
+      saveUser(res.data);
       return res.data;
-    } catch (err: any) {
-      clearAuthFromLocalStorage();
-      return rejectWithValue(err.response?.data?.error || 'Failed to fetch user');
+    } catch (err) {
+      return rejectWithValue(toApiError(err, 'Failed to refresh your profile').message);
     }
   }
 );
 
+export const requestPasswordReset = createAsyncThunk<
+  MessageResponse,
+  { email: string },
+  { rejectValue: string }
+>('auth/requestPasswordReset', async (data, { rejectWithValue }) => {
+  try {
+    const res = await api.post<MessageResponse>('/auth/forgot-password', data);
+    return res.data;
+  } catch (err) {
+    return rejectWithValue(toApiError(err, 'Could not send reset link').message);
+  }
+});
+
+export const resetPassword = createAsyncThunk<
+  MessageResponse,
+  { token: string; password: string },
+  { rejectValue: string }
+>('auth/resetPassword', async ({ token, password }, { rejectWithValue }) => {
+  try {
+    const res = await api.post<MessageResponse>(`/auth/reset-password/${encodeURIComponent(token)}`, { password });
+    return res.data;
+  } catch (err) {
+    return rejectWithValue(toApiError(err, 'Password reset failed').message);
+  }
+});
+
+export const updateProfile = createAsyncThunk<
+  User,
+  { name: string; email: string },
+  { rejectValue: string }
+>('auth/updateProfile', async (data, { rejectWithValue }) => {
+  try {
+    const res = await api.put<User>('/auth/me', data);
+    saveUser(res.data);
+    return res.data;
+  } catch (err) {
+    return rejectWithValue(toApiError(err, 'Failed to update profile').message);
+  }
+});
+
+export const changePassword = createAsyncThunk<
+  MessageResponse,
+  { currentPassword: string; newPassword: string },
+  { rejectValue: string }
+>('auth/changePassword', async (data, { rejectWithValue }) => {
+  try {
+    const res = await api.post<MessageResponse>('/auth/change-password', data);
+    return res.data;
+  } catch (err) {
+    return rejectWithValue(toApiError(err, 'Failed to change password').message);
+  }
+});
+
 export const logoutUser = createAsyncThunk<void, void, { rejectValue: string }>(
   'auth/logoutUser',
   async (_, { rejectWithValue }) => {
     try {
       await api.get('/auth/logout');
-      clearAuthFromLocalStorage();
+    } catch (err) {
+      return rejectWithValue(toApiError(err, 'Logout failed').message);
+    } finally {
+      // The local session ends even if the server call fails (e.g. an already expired token)
+      clearAuth();
       delete api.defaults.headers.common['Authorization'];
-    } catch (err: any) {
-      return rejectWithValue(err.response?.data?.error || 'Logout failed');
     }
   }
 );
@@ -113,6 +229,27 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    tokenRefreshed: (state, action: PayloadAction<string>) => {
+      state.token = action.payload;
+    },
+    // Applies a session change made in another tab
+    sessionSynced: (state, action: PayloadAction<{ user: User | null; token: string | null }>) => {
+      const { user, token } = action.payload;
+      state.user = user;
+      state.token = token;
+      state.isAuthenticated = !!user && !!token;
+      state.sessionExpired = false;
+      state.error = null;
+      state.initialized = true;
+    },
+    // Dispatched by the api client once a token refresh has failed
+    sessionExpired: (state) => {
+      state.user = null;
+      state.token = null;
+      state.isAuthenticated = false;
+      state.sessionExpired = true;
+      state.error = 'Your session has expired. Please log in again.';
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -125,6 +262,7 @@ const authSlice = createSlice({
         state.user = action.payload.user;
         state.token = action.payload.accessToken;
         state.isAuthenticated = true;
+        state.sessionExpired = false;
         state.error = null;
         state.loading = false;
       })
@@ -133,15 +271,39 @@ const authSlice = createSlice({
         state.loading = false;
       })
 
+      // Accept Invite
+      .addCase(acceptInvite.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(acceptInvite.fulfilled, (state, action) => {
+        state.user = action.payload.user;
+        state.token = action.payload.accessToken;
+        state.isAuthenticated = true;
+        state.sessionExpired = false;
+        state.error = null;
+        state.loading = false;
+      })
+      .addCase(acceptInvite.rejected, (state, action) => {
+        state.error = action.payload || 'Could not accept invitation';
+        state.loading = false;
+      })
+
       // Login
       .addCase(loginUser.pending, (state) => {
         state.loading = true;
         state.error = null;
       })
       .addCase(loginUser.fulfilled, (state, action) => {
+        if (isTwoFactorChallenge(action.payload)) {
+          state.error = null;
+          state.loading = false;
+          return;
+        }
         state.user = action.payload.user;
         state.token = action.payload.accessToken;
         state.isAuthenticated = true;
+        state.sessionExpired = false;
         state.error = null;
         state.loading = false;
       })
@@ -153,6 +315,24 @@ const authSlice = createSlice({
         state.loading = false;
       })
 
+      // Two-Factor Verification
+      .addCase(verifyTwoFactor.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(verifyTwoFactor.fulfilled, (state, action) => {
+        state.user = action.payload.user;
+        state.token = action.payload.accessToken;
+        state.isAuthenticated = true;
+        state.sessionExpired = false;
+        state.error = null;
+        state.loading = false;
+      })
+      .addCase(verifyTwoFactor.rejected, (state, action) => {
+        state.error = action.payload || 'Invalid verification code';
+        state.loading = false;
+      })
+
       // Get Me
       .addCase(getMe.pending, (state) => {
         state.loading = true;
@@ -163,6 +343,7 @@ const authSlice = createSlice({
         state.isAuthenticated = true;
         state.error = null;
         state.loading = false;
+        state.initialized = true;
       })
       .addCase(getMe.rejected, (state, action) => {
         state.user = null;
@@ -170,6 +351,62 @@ const authSlice = createSlice({
         state.isAuthenticated = false;
         state.error = action.payload || 'Failed to fetch user';
         state.loading = false;
+        state.initialized = true;
+      })
+
+      // Refresh Profile
+      .addCase(refreshProfile.fulfilled, (state, action) => {
+        state.user = action.payload;
+      })
+
+      // Password reset
+      .addCase(requestPasswordReset.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(requestPasswordReset.fulfilled, (state) => {
+        state.loading = false;
+      })
+      .addCase(requestPasswordReset.rejected, (state, action) => {
+        state.error = action.payload || 'Could not send reset link';
+        state.loading = false;
+      })
+      .addCase(resetPassword.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(resetPassword.fulfilled, (state) => {
+        state.loading = false;
+      })
+      .addCase(resetPassword.rejected, (state, action) => {
+        state.error = action.payload || 'Password reset failed';
+        state.loading = false;
+      })
+
+      // Profile
+      .addCase(updateProfile.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(updateProfile.fulfilled, (state, action) => {
+        state.user = action.payload;
+        state.error = null;
+        state.loading = false;
+      })
+      .addCase(updateProfile.rejected, (state, action) => {
+        state.error = action.payload || 'Failed to update profile';
+        state.loading = false;
+      })
+      .addCase(changePassword.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(changePassword.fulfilled, (state) => {
+        state.loading = false;
+      })
+      .addCase(changePassword.rejected, (state, action) => {
+        state.error = action.payload || 'Failed to change password';
+        state.loading = false;
       })
 
       // Logout
@@ -184,11 +421,14 @@ const authSlice = createSlice({
         state.loading = false;
       })
       .addCase(logoutUser.rejected, (state, action) => {
+        state.user = null;
+        state.token = null;
+        state.isAuthenticated = false;
         state.error = action.payload || 'Logout failed';
         state.loading = false;
       });
   },
 });
 
-export const { clearError } = authSlice.actions;
+export const { clearError, tokenRefreshed, sessionExpired, sessionSynced } = authSlice.actions;
 export default authSlice.reducer;
\ No newline at end of file
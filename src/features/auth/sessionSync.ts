@@ -0,0 +1,119 @@
+import { createListenerMiddleware, isAnyOf } from '@reduxjs/toolkit';
+import type { Dispatch } from '@reduxjs/toolkit';
+import {
+  acceptInvite,
+  AuthState,
+  getMe,
+  isTwoFactorChallenge,
+  loginUser,
+  logoutUser,
+  refreshProfile,
+  registerUser,
+  sessionExpired,
+  sessionSynced,
+  tokenRefreshed,
+  updateProfile,
+  User,
+  verifyTwoFactor,
+} from './authSlice';
+import { getStoredToken, getStoredUser } from '../../utils/authStorage';
+
+// Keeps the auth slice identical across every open tab.
+// Uses BroadcastChannel where available and falls back to localStorage "storage" events.
+
+interface SessionMessage {
+  type: 'session';
+  user: User | null;
+  token: string | null;
+}
+
+interface ActivityMessage {
+  type: 'activity';
+  at: number;
+}
+
+type SyncMessage = SessionMessage | ActivityMessage;
+
+const CHANNEL_NAME = 'staffpoints-auth';
+const ACTIVITY_KEY = 'lastActivity';
+const AUTH_KEYS = ['user', 'token'];
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+let lastSharedActivity = 0;
+const activityListeners = new Set<(at: number) => void>();
+
+const post = (message: SyncMessage) => {
+  channel?.postMessage(message);
+};
+
+// Activity in any tab keeps the idle timer alive in all of them
+export const shareActivity = (at = Date.now()) => {
+  // Throttled: mousemove fires far more often than anyone needs to hear about
+  if (at - lastSharedActivity < 5000) return;
+  lastSharedActivity = at;
+
+  if (channel) {
+    post({ type: 'activity', at });
+  } else {
+    localStorage.setItem(ACTIVITY_KEY, String(at));
+  }
+};
+
+export const onSharedActivity = (listener: (at: number) => void) => {
+  activityListeners.add(listener);
+  return () => {
+    activityListeners.delete(listener);
+  };
+};
+
+export const sessionSyncMiddleware = createListenerMiddleware();
+
+// Announce every change to the local session
+sessionSyncMiddleware.startListening({
+  matcher: isAnyOf(
+    loginUser.fulfilled,
+    verifyTwoFactor.fulfilled,
+    registerUser.fulfilled,
+    acceptInvite.fulfilled,
+    getMe.fulfilled,
+    refreshProfile.fulfilled,
+    updateProfile.fulfilled,
+    getMe.rejected,
+    logoutUser.fulfilled,
+    logoutUser.rejected,
+    sessionExpired,
+    tokenRefreshed
+  ),
+  effect: (action, listenerApi) => {
+    // A pending 2FA challenge has not changed the session
+    if (loginUser.fulfilled.match(action) && isTwoFactorChallenge(action.payload)) return;
+
+    const { user, token } = (listenerApi.getState() as { auth: AuthState }).auth;
+    post({ type: 'session', user, token });
+  },
+});
+
+export const startSessionSync = (dispatch: Dispatch) => {
+  const notifyActivity = (at: number) => activityListeners.forEach((listener) => listener(at));
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      const message = event.data;
+      if (message.type === 'session') {
+        dispatch(sessionSynced({ user: message.user, token: message.token }));
+      } else if (message.type === 'activity') {
+        notifyActivity(message.at);
+      }
+    };
+    return;
+  }
+
+  window.addEventListener('storage', (event) => {
+    if (event.key === ACTIVITY_KEY && event.newValue) {
+      notifyActivity(Number(event.newValue));
+    } else if (event.key === null || AUTH_KEYS.includes(event.key)) {
+      dispatch(sessionSynced({ user: getStoredUser(), token: getStoredToken() }));
+    }
+  });
+};
@@ -0,0 +1,20 @@
+import * as yup from 'yup';
+
+// Password rules shared by registration, password reset and password change
+export const passwordSchema = yup
+  .string()
+  .min(6, 'Password must be at least 6 characters')
+  .required('Password is required');
+
+export const confirmPasswordSchema = (field = 'password') =>
+  yup
+    .string()
+    .oneOf([yup.ref(field)], 'Passwords do not match')
+    .required('Please confirm your password');
+
+// A 6-digit TOTP code, or one of the account's backup codes
+export const verificationCodeSchema = yup
+  .string()
+  .trim()
+  .matches(/^(\d{6}|[A-Za-z0-9-]{8,})$/, 'Enter the 6-digit code or a backup code')
+  .required('Verification code is required');
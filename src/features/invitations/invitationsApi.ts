@@ -0,0 +1,22 @@
+import { apiSlice, fromService } from '../api/apiSlice';
+import { createInvitation, fetchInvitations, revokeInvitation } from '../../services/invitations';
+import type { CreateInvitationPayload, Invitation, PageParams, Paginated } from '../../services/types';
+
+export const invitationsApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    getInvitations: builder.query<Paginated<Invitation>, PageParams>({
+      queryFn: (params) => fromService(() => fetchInvitations(params), 'Failed to fetch invitations'),
+      providesTags: ['Invitation'],
+    }),
+    createInvitation: builder.mutation<Invitation, CreateInvitationPayload>({
+      queryFn: (payload) => fromService(() => createInvitation(payload), 'Failed to send invitation'),
+      invalidatesTags: ['Invitation'],
+    }),
+    revokeInvitation: builder.mutation<void, number>({
+      queryFn: (id) => fromService(() => revokeInvitation(id), 'Failed to revoke invitation'),
+      invalidatesTags: ['Invitation'],
+    }),
+  }),
+});
+
+export const { useGetInvitationsQuery, useCreateInvitationMutation, useRevokeInvitationMutation } = invitationsApi;
@@ -0,0 +1,22 @@
+import { apiSlice, fromService } from '../api/apiSlice';
+import { fetchColleagues, fetchKudosLimits, sendKudos } from '../../services/kudos';
+import type { AllocationResult, Colleague, KudosLimits, SendKudosPayload } from '../../services/types';
+
+export const kudosApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    getColleagues: builder.query<Colleague[], void>({
+      queryFn: () => fromService(fetchColleagues, 'Failed to fetch colleagues'),
+    }),
+    getKudosLimits: builder.query<KudosLimits, void>({
+      queryFn: () => fromService(fetchKudosLimits, 'Failed to fetch kudos limits'),
+      providesTags: ['KudosLimits'],
+    }),
+    sendKudos: builder.mutation<AllocationResult, { payload: SendKudosPayload; idempotencyKey: string }>({
+      queryFn: ({ payload, idempotencyKey }) =>
+        fromService(() => sendKudos(payload, idempotencyKey), 'Failed to send kudos'),
+      invalidatesTags: (_result, error) => (error ? [] : [{ type: 'Transaction', id: 'LIST' }, 'KudosLimits']),
+    }),
+  }),
+});
+
+export const { useGetColleaguesQuery, useGetKudosLimitsQuery, useSendKudosMutation } = kudosApi;
@@ -0,0 +1,71 @@
+import { apiSlice, fromService } from '../api/apiSlice';
+import {
+  createReward,
+  deleteReward,
+  fetchMyRedemptions,
+  fetchRedemptions,
+  fetchRewards,
+  markRedemptionDelivered,
+  redeemReward,
+  RedemptionParams,
+  refundRedemption,
+  updateReward,
+} from '../../services/rewards';
+import type { Paginated, Redemption, Reward, RewardPayload } from '../../services/types';
+
+export const rewardsApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    getRewards: builder.query<Reward[], { includeInactive?: boolean }>({
+      queryFn: (params) => fromService(() => fetchRewards(params), 'Failed to fetch rewards'),
+      providesTags: ['Reward'],
+    }),
+    createReward: builder.mutation<Reward, RewardPayload>({
+      queryFn: (payload) => fromService(() => createReward(payload), 'Failed to create reward'),
+      invalidatesTags: ['Reward'],
+    }),
+    updateReward: builder.mutation<Reward, { id: number; payload: RewardPayload }>({
+      queryFn: ({ id, payload }) => fromService(() => updateReward(id, payload), 'Failed to update reward'),
+      invalidatesTags: ['Reward'],
+    }),
+    deleteReward: builder.mutation<void, number>({
+      queryFn: (id) => fromService(() => deleteReward(id), 'Failed to delete reward'),
+      invalidatesTags: ['Reward'],
+    }),
+    // Redeeming changes stock, the employee's history and the fulfillment queue
+    redeemReward: builder.mutation<Redemption, { id: number; idempotencyKey: string }>({
+      queryFn: ({ id, idempotencyKey }) => fromService(() => redeemReward(id, idempotencyKey), 'Failed to redeem reward'),
+      invalidatesTags: (_result, error) =>
+        error ? [] : ['Reward', 'Redemption', { type: 'Transaction', id: 'LIST' }],
+    }),
+    getRedemptions: builder.query<Paginated<Redemption>, RedemptionParams>({
+      queryFn: (params) => fromService(() => fetchRedemptions(params), 'Failed to fetch redemptions'),
+      providesTags: ['Redemption'],
+    }),
+    getMyRedemptions: builder.query<Paginated<Redemption>, RedemptionParams>({
+      queryFn: (params) => fromService(() => fetchMyRedemptions(params), 'Failed to fetch redemptions'),
+      providesTags: ['Redemption'],
+    }),
+    markRedemptionDelivered: builder.mutation<Redemption, number>({
+      queryFn: (id) => fromService(() => markRedemptionDelivered(id), 'Failed to update redemption'),
+      invalidatesTags: ['Redemption'],
+    }),
+    // A refund returns points and stock
+    refundRedemption: builder.mutation<Redemption, number>({
+      queryFn: (id) => fromService(() => refundRedemption(id), 'Failed to refund redemption'),
+      invalidatesTags: (_result, error) =>
+        error ? [] : ['Redemption', 'Reward', { type: 'Transaction', id: 'LIST' }, { type: 'User', id: 'LIST' }],
+    }),
+  }),
+});
+
+export const {
+  useGetRewardsQuery,
+  useCreateRewardMutation,
+  useUpdateRewardMutation,
+  useDeleteRewardMutation,
+  useRedeemRewardMutation,
+  useGetRedemptionsQuery,
+  useGetMyRedemptionsQuery,
+  useMarkRedemptionDeliveredMutation,
+  useRefundRedemptionMutation,
+} = rewardsApi;
@@ -0,0 +1,64 @@
+import { apiSlice, fromService } from '../api/apiSlice';
+import {
+  cancelSchedule,
+  createSchedule,
+  fetchScheduleExecutions,
+  fetchSchedules,
+  pauseSchedule,
+  resumeSchedule,
+  updateSchedule,
+} from '../../services/schedules';
+import type {
+  AllocationSchedule,
+  AllocationSchedulePayload,
+  PageParams,
+  Paginated,
+  ScheduleExecution,
+} from '../../services/types';
+
+const invalidateSchedule = (_result: unknown, error: unknown, id: number) =>
+  error ? [] : [{ type: 'AllocationSchedule' as const, id: 'LIST' }, { type: 'AllocationSchedule' as const, id }];
+
+export const schedulesApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    getSchedules: builder.query<Paginated<AllocationSchedule>, PageParams>({
+      queryFn: (params) => fromService(() => fetchSchedules(params), 'Failed to fetch schedules'),
+      providesTags: [{ type: 'AllocationSchedule', id: 'LIST' }],
+    }),
+    getScheduleExecutions: builder.query<Paginated<ScheduleExecution>, { id: number } & PageParams>({
+      queryFn: ({ id, ...params }) =>
+        fromService(() => fetchScheduleExecutions(id, params), 'Failed to fetch schedule history'),
+      providesTags: (_result, _error, { id }) => [{ type: 'AllocationSchedule', id }],
+    }),
+    createSchedule: builder.mutation<AllocationSchedule, AllocationSchedulePayload>({
+      queryFn: (payload) => fromService(() => createSchedule(payload), 'Failed to create schedule'),
+      invalidatesTags: [{ type: 'AllocationSchedule', id: 'LIST' }],
+    }),
+    updateSchedule: builder.mutation<AllocationSchedule, { id: number; payload: AllocationSchedulePayload }>({
+      queryFn: ({ id, payload }) => fromService(() => updateSchedule(id, payload), 'Failed to update schedule'),
+      invalidatesTags: (result, error, { id }) => invalidateSchedule(result, error, id),
+    }),
+    pauseSchedule: builder.mutation<AllocationSchedule, number>({
+      queryFn: (id) => fromService(() => pauseSchedule(id), 'Failed to pause schedule'),
+      invalidatesTags: invalidateSchedule,
+    }),
+    resumeSchedule: builder.mutation<AllocationSchedule, number>({
+      queryFn: (id) => fromService(() => resumeSchedule(id), 'Failed to resume schedule'),
+      invalidatesTags: invalidateSchedule,
+    }),
+    cancelSchedule: builder.mutation<void, number>({
+      queryFn: (id) => fromService(() => cancelSchedule(id), 'Failed to cancel schedule'),
+      invalidatesTags: invalidateSchedule,
+    }),
+  }),
+});
+
+export const {
+  useGetSchedulesQuery,
+  useGetScheduleExecutionsQuery,
+  useCreateScheduleMutation,
+  useUpdateScheduleMutation,
+  usePauseScheduleMutation,
+  useResumeScheduleMutation,
+  useCancelScheduleMutation,
+} = schedulesApi;
@@ -0,0 +1,59 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { checkHealth } from '../../services/health';
+import { toApiError } from '../../utils/apiError';
+
+// Types
+export type HealthState = 'unknown' | 'checking' | 'up' | 'down';
+
+export interface ServerState {
+  // True while any request has been waiting longer than expected (backend cold start)
+  waking: boolean;
+  health: HealthState;
+  error: string | null;
+}
+
+const initialState: ServerState = {
+  waking: false,
+  health: 'unknown',
+  error: null,
+};
+
+// Async Thunks
+export const pingHealth = createAsyncThunk<void, void, { rejectValue: string }>(
+  'server/pingHealth',
+  async (_, { rejectWithValue }) => {
+    try {
+      await checkHealth();
+    } catch (err) {
+      return rejectWithValue(toApiError(err, 'The server is not responding').message);
+    }
+  }
+);
+
+// Slice
+const serverSlice = createSlice({
+  name: 'server',
+  initialState,
+  reducers: {
+    slowRequestsChanged: (state, action: PayloadAction<boolean>) => {
+      state.waking = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(pingHealth.pending, (state) => {
+        state.health = 'checking';
+        state.error = null;
+      })
+      .addCase(pingHealth.fulfilled, (state) => {
+        state.health = 'up';
+      })
+      .addCase(pingHealth.rejected, (state, action) => {
+        state.health = 'down';
+        state.error = action.payload || 'The server is not responding';
+      });
+  },
+});
+
+export const { slowRequestsChanged } = serverSlice.actions;
+export default serverSlice.reducer;
@@ -0,0 +1,84 @@
+import type { StaffMember } from '../../services/types';
+import { parseCsv } from '../../utils/csv';
+import { buildBulkReport, parseBulkRows, toBulkItems } from './bulkAllocation';
+
+const directory: StaffMember[] = [
+  { id: 1, name: 'Jane Doe', email: 'jane.doe@school.edu', role: 'EMPLOYEE', staffPoints: 0 },
+  { id: 42, name: 'John Roe', email: 'john.roe@school.edu', role: 'EMPLOYEE', staffPoints: 10 },
+];
+
+describe('parseBulkRows', () => {
+  it('reads columns by header name in any order', () => {
+    const rows = parseBulkRows(
+      [
+        ['Note', 'Amount', 'Email'],
+        ['Exams', '100', 'JANE.DOE@school.edu'],
+      ],
+      directory
+    );
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ line: 2, recipient: directory[0], amount: 100, note: 'Exams', errors: [] });
+  });
+
+  it('detects the header of a CSV saved by Excel with a byte order mark', () => {
+    const rows = parseBulkRows(parseCsv('\uFEFFrecipient,amount\r\n42,50\r\n'), directory);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ line: 2, recipient: directory[1], amount: 50, errors: [] });
+  });
+
+  it('falls back to recipient, amount, note columns without a header', () => {
+    const rows = parseBulkRows([['42', '50', 'Sports day']], directory);
+
+    expect(rows[0]).toMatchObject({ line: 1, recipient: directory[1], amount: 50, note: 'Sports day', errors: [] });
+  });
+
+  it('flags unknown recipients, bad amounts and long notes', () => {
+    const rows = parseBulkRows(
+      [
+        ['recipient', 'amount', 'note'],
+        ['nobody@school.edu', '10', ''],
+        ['', '10', ''],
+        ['1', '2.5', ''],
+        ['1', '10', 'x'.repeat(101)],
+      ],
+      directory
+    );
+
+    expect(rows.map((row) => row.errors)).toEqual([
+      ['No staff member with this email or id'],
+      ['Recipient is missing'],
+      ['Amount must be a whole number of at least 1'],
+      ['Note must be less than 100 characters'],
+    ]);
+  });
+
+  it('gives every row its own idempotency key', () => {
+    const rows = parseBulkRows([['1', '10'], ['1', '10']], directory);
+
+    expect(rows[0].idempotencyKey).not.toEqual(rows[1].idempotencyKey);
+  });
+});
+
+describe('toBulkItems', () => {
+  it('submits only valid rows', () => {
+    const rows = parseBulkRows([['1', '10', 'Thanks'], ['missing', '10', ''], ['42', '0', '']], directory);
+
+    expect(toBulkItems(rows)).toEqual([
+      { recipientId: 1, amount: 10, note: 'Thanks', idempotencyKey: rows[0].idempotencyKey },
+    ]);
+  });
+});
+
+describe('buildBulkReport', () => {
+  it('reports skipped rows and the backend result of submitted ones', () => {
+    const rows = parseBulkRows([['1', '10', ''], ['missing', '5', '']], directory);
+    const report = buildBulkReport(rows, [{ idempotencyKey: rows[0].idempotencyKey, status: 'SUCCESS', transactionId: 7 }]);
+
+    expect(report.slice(1)).toEqual([
+      [1, '1', 'Jane Doe', 10, '', 'SUCCESS', 7, '', ''],
+      [2, 'missing', '', 5, '', 'SKIPPED', '', '', 'No staff member with this email or id'],
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import type { BulkAllocationItem, BulkAllocationRowResult, StaffMember } from '../../services/types';
+import { createIdempotencyKey } from '../../utils/idempotency';
+
+// A parsed CSV row, validated against the staff directory
+export interface BulkRow {
+  line: number;
+  recipientRef: string;
+  recipient?: StaffMember;
+  amount: number;
+  note: string;
+  idempotencyKey: string;
+  errors: string[];
+}
+
+// A row that passed validation, and so has a matched recipient
+type ValidBulkRow = BulkRow & { recipient: StaffMember };
+
+const isValidRow = (row: BulkRow): row is ValidBulkRow => row.errors.length === 0 && !!row.recipient;
+
+export const BULK_TEMPLATE = [
+  ['recipient', 'amount', 'note'],
+  ['jane.doe@school.edu', '100', 'Exam invigilation'],
+  ['42', '50', 'Sports day'],
+];
+
+const RECIPIENT_HEADERS = ['recipient', 'email', 'userid', 'user_id', 'id'];
+const MAX_NOTE_LENGTH = 100;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Accepts an optional header row; otherwise columns are recipient, amount, note
+export const parseBulkRows = (table: string[][], directory: StaffMember[]): BulkRow[] => {
+  if (table.length === 0) return [];
+
+  const header = table[0].map(normalize);
+  const hasHeader = header.some((cell) => RECIPIENT_HEADERS.includes(cell)) && header.includes('amount');
+  const recipientCol = hasHeader ? header.findIndex((cell) => RECIPIENT_HEADERS.includes(cell)) : 0;
+  const amountCol = hasHeader ? header.indexOf('amount') : 1;
+  const noteCol = hasHeader ? header.indexOf('note') : 2;
+
+  const byEmail = new Map(directory.map((user) => [user.email.toLowerCase(), user]));
+  const byId = new Map(directory.map((user) => [String(user.id), user]));
+
+  return table.slice(hasHeader ? 1 : 0).map((cells, index) => {
+    const recipientRef = (cells[recipientCol] ?? '').trim();
+    const amountText = (cells[amountCol] ?? '').trim();
+    const note = noteCol >= 0 ? (cells[noteCol] ?? '').trim() : '';
+    const recipient = byEmail.get(recipientRef.toLowerCase()) ?? byId.get(recipientRef);
+    const amount = Number(amountText);
+    const errors: string[] = [];
+
+    if (!recipientRef) errors.push('Recipient is missing');
+    else if (!recipient) errors.push('No staff member with this email or id');
+    if (!Number.isInteger(amount) || amount < 1) errors.push('Amount must be a whole number of at least 1');
+    if (note.length > MAX_NOTE_LENGTH) errors.push(`Note must be less than ${MAX_NOTE_LENGTH} characters`);
+
+    return {
+      line: index + (hasHeader ? 2 : 1),
+      recipientRef,
+      recipient,
+      amount,
+      note,
+      idempotencyKey: createIdempotencyKey(),
+      errors,
+    };
+  });
+};
+
+export const toBulkItems = (rows: BulkRow[]): BulkAllocationItem[] =>
+  rows
+    .filter(isValidRow)
+    .map((row) => ({
+      recipientId: row.recipient.id,
+      amount: row.amount,
+      note: row.note || undefined,
+      idempotencyKey: row.idempotencyKey,
+    }));
+
+export const buildBulkReport = (rows: BulkRow[], results: BulkAllocationRowResult[]) => {
+  const byKey = new Map(results.map((result) => [result.idempotencyKey, result]));
+  return [
+    ['line', 'recipient', 'name', 'amount', 'note', 'status', 'transactionId', 'approvalRequestId', 'error'],
+    ...rows.map((row) => {
+      const result = byKey.get(row.idempotencyKey);
+      const status = row.errors.length > 0 ? 'SKIPPED' : result?.status ?? 'UNKNOWN';
+      const error = row.errors.length > 0 ? row.errors.join('; ') : result?.error ?? '';
+      return [
+        row.line,
+        row.recipientRef,
+        row.recipient?.name ?? '',
+        row.amount,
+        row.note,
+        status,
+        result?.transactionId ?? '',
+        result?.approvalRequestId ?? '',
+        error,
+      ];
+    }),
+  ];
+};
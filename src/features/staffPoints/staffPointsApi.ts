@@ -0,0 +1,68 @@
+import { apiSlice, fromService } from '../api/apiSlice';
+import { allocatePoints, allocatePointsBatch } from '../../services/staffPoints';
+import type {
+  AllocatePointsPayload,
+  AllocationResult,
+  BulkAllocationItem,
+  BulkAllocationResult,
+} from '../../services/types';
+import type { SerializedApiError } from '../../utils/apiError';
+import { transferConfirmed, transferFailed, transferSubmitted } from '../transfers/transfersSlice';
+
+export interface AllocatePointsArgs {
+  payload: AllocatePointsPayload;
+  idempotencyKey: string;
+  // Display only; shown in the ledger while the transfer is in flight
+  recipientName?: string;
+}
+
+export const staffPointsApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    // A successful allocation refreshes the directory, balance cards and ledger, or the
+    // approvals list when the amount is held for a second admin
+    allocatePoints: builder.mutation<AllocationResult, AllocatePointsArgs>({
+      queryFn: ({ payload, idempotencyKey }) =>
+        fromService(() => allocatePoints(payload, idempotencyKey), 'Failed to allocate points'),
+      invalidatesTags: (result, error, { payload }) =>
+        error
+          ? []
+          : result?.approvalRequest
+          ? ['AllocationRequest']
+          : [
+              { type: 'User', id: 'LIST' },
+              { type: 'User', id: payload.recipientId },
+              { type: 'Transaction', id: 'LIST' },
+              'AdminBalance',
+            ],
+      async onQueryStarted({ payload, idempotencyKey, recipientName }, { dispatch, queryFulfilled }) {
+        dispatch(transferSubmitted({ ...payload, idempotencyKey, recipientName }));
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(
+            transferConfirmed({
+              idempotencyKey,
+              transactionId: data?.transaction?.id,
+              approvalRequestId: data?.approvalRequest?.id,
+            })
+          );
+        } catch (err) {
+          const error = (err as { error?: SerializedApiError }).error;
+          dispatch(transferFailed({ idempotencyKey, error: error?.message || 'Failed to allocate points' }));
+        }
+      },
+    }),
+    allocatePointsBatch: builder.mutation<BulkAllocationResult, { items: BulkAllocationItem[]; idempotencyKey: string }>({
+      queryFn: ({ items, idempotencyKey }) =>
+        fromService(() => allocatePointsBatch(items, idempotencyKey), 'Failed to submit bulk allocation'),
+      // Even a partly failed batch may have moved points or queued approvals
+      invalidatesTags: [
+        { type: 'User', id: 'LIST' },
+        { type: 'Transaction', id: 'LIST' },
+        'AdminBalance',
+        { type: 'AllocationRequest', id: 'LIST' },
+      ],
+    }),
+  }),
+});
+
+export const { useAllocatePointsMutation, useAllocatePointsBatchMutation } = staffPointsApi;
@@ -0,0 +1,40 @@
+import type { SheetData } from 'write-excel-file/browser';
+import type { Transaction } from '../../services/types';
+import { downloadCsv } from '../../utils/csv';
+
+const HEADER = ['ID', 'Type', 'Date', 'From', 'To', 'Amount', 'Note', 'Initiated by', 'Reversal of', 'Reversed by'];
+
+const toRow = (tx: Transaction) => [
+  tx.id,
+  tx.type ?? 'ALLOCATION',
+  new Date(tx.timestamp).toISOString(),
+  tx.senderName,
+  tx.recipientName,
+  tx.amount,
+  tx.note ?? '',
+  tx.initiatedByName ?? '',
+  tx.reversalOfId ?? '',
+  tx.reversedById ?? '',
+];
+
+export const exportLedgerCsv = (filename: string, transactions: Transaction[]) =>
+  downloadCsv(filename, [HEADER, ...transactions.map(toRow)]);
+
+// Loaded on demand to keep the spreadsheet writer out of the main bundle
+export const exportLedgerXlsx = async (filename: string, transactions: Transaction[]) => {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const header = HEADER.map((value) => ({ value, fontWeight: 'bold' as const }));
+  const rows: SheetData = transactions.map((tx) => [
+    { value: tx.id, type: Number },
+    { value: tx.type ?? 'ALLOCATION' },
+    { value: new Date(tx.timestamp), type: Date, format: 'yyyy-mm-dd hh:mm' },
+    { value: tx.senderName ?? '' },
+    { value: tx.recipientName ?? '' },
+    { value: tx.amount, type: Number },
+    { value: tx.note ?? '' },
+    { value: tx.initiatedByName ?? '' },
+    { value: tx.reversalOfId ?? undefined, type: Number },
+    { value: tx.reversedById ?? undefined, type: Number },
+  ]);
+  await writeXlsxFile([header, ...rows], { sheet: 'Transactions', stickyRowsCount: 1 }).toFile(filename);
+};
@@ -0,0 +1,98 @@
+import type { Transaction } from '../../services/types';
+import { buildLedgerStatement, buildStatement, computeLedgerBalance, groupStatement } from './statement';
+
+const USER = 7;
+
+const tx = (id: number, timestamp: string, amount: number, received: boolean): Transaction => ({
+  id,
+  senderId: received ? 1 : USER,
+  recipientId: received ? USER : 1,
+  amount,
+  timestamp,
+});
+
+// Local times, so the tests do not depend on the machine's time zone
+const history = [
+  tx(1, '2024-01-10T09:00:00', 100, true),
+  tx(2, '2024-02-05T09:00:00', 30, false),
+  tx(3, '2024-02-20T17:00:00', 50, true),
+  tx(4, '2024-03-01T09:00:00', 20, false),
+];
+
+describe('buildStatement', () => {
+  it('covers the whole history when no period is given', () => {
+    const statement = buildStatement(history, USER, 100);
+
+    expect(statement).toMatchObject({ openingBalance: 0, closingBalance: 100, received: 150, sent: 50 });
+    expect(statement.entries.map((entry) => [entry.change, entry.balance])).toEqual([
+      [100, 100],
+      [-30, 70],
+      [50, 120],
+      [-20, 100],
+    ]);
+  });
+
+  it('works back from the current balance to the period boundaries', () => {
+    const statement = buildStatement(history, USER, 100, { from: '2024-02-01', to: '2024-02-29' });
+
+    expect(statement).toMatchObject({ openingBalance: 100, closingBalance: 120, received: 50, sent: 30 });
+    expect(statement.entries.map((entry) => entry.transaction.id)).toEqual([2, 3]);
+  });
+
+  it('includes transactions on the last day of the period', () => {
+    const statement = buildStatement(history, USER, 100, { from: '2024-02-20', to: '2024-02-20' });
+
+    expect(statement.entries.map((entry) => entry.transaction.id)).toEqual([3]);
+  });
+
+  it('sorts unordered input by time', () => {
+    const statement = buildStatement([...history].reverse(), USER, 100);
+
+    expect(statement.entries.map((entry) => entry.transaction.id)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('computeLedgerBalance', () => {
+  it('adds received and subtracts sent points', () => {
+    expect(computeLedgerBalance(history, USER)).toBe(100);
+    expect(computeLedgerBalance([], USER)).toBe(0);
+  });
+});
+
+describe('buildLedgerStatement', () => {
+  it('anchors on the ledger balance rather than a cached one', () => {
+    expect(buildLedgerStatement(history, USER, { from: '2024-02-01', to: '2024-02-29' })).toEqual(
+      buildStatement(history, USER, 100, { from: '2024-02-01', to: '2024-02-29' })
+    );
+  });
+});
+
+describe('groupStatement', () => {
+  it('subtotals by month with the balance at the end of each', () => {
+    const { entries } = buildStatement(history, USER, 100);
+
+    const subtotals = groupStatement(entries, 'month');
+
+    expect(subtotals.map(({ key, received, sent, closingBalance }) => [key, received, sent, closingBalance])).toEqual([
+      ['2024-01', 100, 0, 100],
+      ['2024-02', 50, 30, 120],
+      ['2024-03', 0, 20, 100],
+    ]);
+  });
+
+  it('starts weeks on Monday', () => {
+    const days = ['2024-02-04T12:00:00', '2024-02-05T12:00:00', '2024-02-11T12:00:00'];
+    const { entries } = buildStatement(
+      days.map((day, i) => tx(i + 1, day, 10, true)),
+      USER,
+      30
+    );
+
+    // Sunday the 4th closes one week; Monday the 5th through Sunday the 11th is the next
+    expect(groupStatement(entries, 'week').map((group) => group.received)).toEqual([10, 20]);
+  });
+
+  it('returns no groups for an empty statement', () => {
+    expect(groupStatement([], 'week')).toEqual([]);
+  });
+});
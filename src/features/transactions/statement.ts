@@ -0,0 +1,115 @@
+import type { Transaction } from '../../services/types';
+
+export interface StatementEntry {
+  transaction: Transaction;
+  // Positive when the user received points, negative when they sent them
+  change: number;
+  balance: number;
+}
+
+export interface Statement {
+  openingBalance: number;
+  closingBalance: number;
+  received: number;
+  sent: number;
+  entries: StatementEntry[];
+}
+
+export interface StatementPeriod {
+  // Inclusive local calendar dates, YYYY-MM-DD; omitted for an open-ended period
+  from?: string;
+  to?: string;
+}
+
+export const signedAmount = (tx: Transaction, userId: number) => (tx.recipientId === userId ? tx.amount : -tx.amount);
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+// Works back from the current balance, so `transactions` must be the user's complete history
+export const buildStatement = (
+  transactions: Transaction[],
+  userId: number,
+  currentBalance: number,
+  { from, to }: StatementPeriod = {}
+): Statement => {
+  const start = from ? startOfDay(from) : -Infinity;
+  const end = to ? endOfDay(to) : Infinity;
+  const sorted = [...transactions].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() || a.id - b.id);
+
+  const afterPeriod = sorted.filter((tx) => new Date(tx.timestamp).getTime() > end);
+  const inPeriod = sorted.filter((tx) => {
+    const time = new Date(tx.timestamp).getTime();
+    return time >= start && time <= end;
+  });
+
+  const closingBalance = afterPeriod.reduce((balance, tx) => balance - signedAmount(tx, userId), currentBalance);
+  const openingBalance = inPeriod.reduce((balance, tx) => balance - signedAmount(tx, userId), closingBalance);
+
+  let balance = openingBalance;
+  let received = 0;
+  let sent = 0;
+  const entries = inPeriod.map((transaction) => {
+    const change = signedAmount(transaction, userId);
+    balance += change;
+    if (change > 0) received += change;
+    else sent -= change;
+    return { transaction, change, balance };
+  });
+
+  return { openingBalance, closingBalance, received, sent, entries };
+};
+
+// Balance implied by the complete history, for reconciling against the server-reported staffPoints
+export const computeLedgerBalance = (transactions: Transaction[], userId: number) =>
+  transactions.reduce((balance, tx) => balance + signedAmount(tx, userId), 0);
+
+// Anchors on the ledger-derived balance, so the on-screen statement and the PDF always agree
+export const buildLedgerStatement = (transactions: Transaction[], userId: number, period: StatementPeriod = {}) =>
+  buildStatement(transactions, userId, computeLedgerBalance(transactions, userId), period);
+
+export type SubtotalGrouping = 'week' | 'month';
+
+export interface StatementSubtotal {
+  key: string;
+  label: string;
+  received: number;
+  sent: number;
+  closingBalance: number;
+}
+
+// Weeks start on Monday, in local time
+const weekStart = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const periodOf = (timestamp: string, grouping: SubtotalGrouping) => {
+  const date = new Date(timestamp);
+  if (grouping === 'month') {
+    return {
+      key: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
+      label: date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' }),
+    };
+  }
+  const start = weekStart(date);
+  return {
+    key: start.toISOString(),
+    label: `Week of ${start.toLocaleDateString()}`,
+  };
+};
+
+// Received/sent per week or month, in the order of the statement entries
+export const groupStatement = (entries: StatementEntry[], grouping: SubtotalGrouping): StatementSubtotal[] => {
+  const groups = new Map<string, StatementSubtotal>();
+  entries.forEach(({ transaction, change, balance }) => {
+    const { key, label } = periodOf(transaction.timestamp, grouping);
+    const group = groups.get(key) ?? { key, label, received: 0, sent: 0, closingBalance: balance };
+    if (change > 0) group.received += change;
+    else group.sent -= change;
+    group.closingBalance = balance;
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+};
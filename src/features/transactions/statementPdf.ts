@@ -0,0 +1,66 @@
+import type { Statement, StatementPeriod } from './statement';
+
+interface StatementOwner {
+  name: string;
+  email: string;
+}
+
+const formatPoints = (value: number) => `${value.toLocaleString()} pts`;
+const formatChange = (value: number) => `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+
+export const describePeriod = ({ from, to }: StatementPeriod) => {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+  if (from && to) return `${format(from)} – ${format(to)}`;
+  if (from) return `From ${format(from)}`;
+  if (to) return `Up to ${format(to)}`;
+  return 'All time';
+};
+
+// jsPDF is loaded on demand; it is only needed when a statement is downloaded
+export const downloadStatementPdf = async (
+  filename: string,
+  owner: StatementOwner,
+  period: StatementPeriod,
+  statement: Statement
+) => {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF();
+
+  doc.setFontSize(16);
+  doc.text('StaffPoints Statement', 14, 18);
+  doc.setFontSize(10);
+  doc.text(`${owner.name} <${owner.email}>`, 14, 26);
+  doc.text(`Period: ${describePeriod(period)}`, 14, 32);
+  doc.text(`Generated: ${new Date().toLocaleString()}`, 14, 38);
+
+  autoTable(doc, {
+    startY: 44,
+    theme: 'plain',
+    body: [
+      ['Opening balance', formatPoints(statement.openingBalance)],
+      ['Received', formatPoints(statement.received)],
+      ['Sent', formatPoints(statement.sent)],
+      ['Closing balance', formatPoints(statement.closingBalance)],
+    ],
+    columnStyles: { 1: { halign: 'right', fontStyle: 'bold' } },
+    tableWidth: 90,
+  });
+
+  autoTable(doc, {
+    head: [['Date', 'Description', 'Change', 'Balance']],
+    body: [
+      ['', 'Opening balance', '', statement.openingBalance.toLocaleString()],
+      ...statement.entries.map(({ transaction, change, balance }) => [
+        new Date(transaction.timestamp).toLocaleString(),
+        change > 0 ? `From ${transaction.senderName}` : `To ${transaction.recipientName}`,
+        formatChange(change),
+        balance.toLocaleString(),
+      ]),
+      ['', 'Closing balance', '', statement.closingBalance.toLocaleString()],
+    ],
+    columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' } },
+    headStyles: { fillColor: [0, 82, 204] },
+  });
+
+  doc.save(filename);
+};
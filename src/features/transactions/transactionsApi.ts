@@ -0,0 +1,74 @@
+import { apiSlice, fromService } from '../api/apiSlice';
+import {
+  fetchAllTransactions,
+  fetchMyTransactions,
+  fetchTransaction,
+  fetchTransactions,
+  reverseTransaction,
+} from '../../services/transactions';
+import type {
+  AllocationResult,
+  Paginated,
+  ReverseTransactionPayload,
+  Transaction,
+  TransactionQuery,
+} from '../../services/types';
+
+const provideTransactionList = (result?: Paginated<Transaction>) => [
+  { type: 'Transaction' as const, id: 'LIST' },
+  ...(result?.items.map(({ id }) => ({ type: 'Transaction' as const, id })) ?? []),
+];
+
+export interface ReverseTransactionArgs {
+  id: number;
+  payload: ReverseTransactionPayload;
+  idempotencyKey: string;
+}
+
+export const transactionsApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    getTransactions: builder.query<Paginated<Transaction>, TransactionQuery>({
+      queryFn: (params) => fromService(() => fetchTransactions(params), 'Failed to fetch transactions'),
+      providesTags: provideTransactionList,
+    }),
+    getMyTransactions: builder.query<Paginated<Transaction>, TransactionQuery>({
+      queryFn: (params) => fromService(() => fetchMyTransactions(params), 'Failed to fetch transactions'),
+      providesTags: provideTransactionList,
+    }),
+    getTransaction: builder.query<Transaction, number>({
+      queryFn: (id) => fromService(() => fetchTransaction(id), 'Failed to fetch transaction'),
+      providesTags: (_result, _error, id) => [{ type: 'Transaction', id }],
+    }),
+    // The signed-in user's complete history, oldest first, for statements and balance reconciliation
+    getAllMyTransactions: builder.query<Transaction[], void>({
+      queryFn: () =>
+        fromService(
+          () => fetchAllTransactions(fetchMyTransactions, { sort: 'timestamp', order: 'asc' }),
+          'Failed to fetch transactions'
+        ),
+      providesTags: [{ type: 'Transaction', id: 'LIST' }],
+    }),
+    // Moves points back, so balances and the directory change as well as the ledger
+    reverseTransaction: builder.mutation<AllocationResult, ReverseTransactionArgs>({
+      queryFn: ({ id, payload, idempotencyKey }) =>
+        fromService(() => reverseTransaction(id, payload, idempotencyKey), 'Failed to reverse transaction'),
+      invalidatesTags: (_result, error, { id }) =>
+        error
+          ? []
+          : [
+              { type: 'Transaction', id },
+              { type: 'Transaction', id: 'LIST' },
+              { type: 'User', id: 'LIST' },
+              'AdminBalance',
+            ],
+    }),
+  }),
+});
+
+export const {
+  useGetTransactionsQuery,
+  useGetMyTransactionsQuery,
+  useGetTransactionQuery,
+  useGetAllMyTransactionsQuery,
+  useReverseTransactionMutation,
+} = transactionsApi;
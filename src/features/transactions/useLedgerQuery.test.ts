@@ -0,0 +1,60 @@
+import { hasLedgerFilters, parseLedgerQuery, toLedgerSearchParams } from './useLedgerQuery';
+
+describe('parseLedgerQuery', () => {
+  it('reads filters, sort and page from the query string', () => {
+    const params = new URLSearchParams(
+      'sender=jane&recipient=%20john%20&minAmount=10&maxAmount=500&from=2024-01-01&to=2024-01-31&q=exam&sort=amount&order=asc&page=3'
+    );
+
+    expect(parseLedgerQuery(params)).toEqual({
+      sender: 'jane',
+      recipient: 'john',
+      minAmount: 10,
+      maxAmount: 500,
+      from: '2024-01-01',
+      to: '2024-01-31',
+      q: 'exam',
+      sort: 'amount',
+      order: 'asc',
+      page: 3,
+    });
+  });
+
+  it('ignores empty, malformed and unknown values', () => {
+    const params = new URLSearchParams('sender=%20&minAmount=abc&maxAmount=&sort=password&order=asc&page=0&foo=bar');
+
+    expect(parseLedgerQuery(params)).toEqual({});
+  });
+
+  it('defaults the order of a known sort to descending', () => {
+    expect(parseLedgerQuery(new URLSearchParams('sort=timestamp&order=sideways'))).toEqual({
+      sort: 'timestamp',
+      order: 'desc',
+    });
+  });
+
+  it('keeps a zero amount filter', () => {
+    expect(parseLedgerQuery(new URLSearchParams('minAmount=0'))).toEqual({ minAmount: 0 });
+  });
+});
+
+describe('toLedgerSearchParams', () => {
+  it('drops empty values and the first page', () => {
+    const params = toLedgerSearchParams({ sender: 'jane', recipient: '', minAmount: 0, page: 1, sort: 'amount', order: 'desc' });
+
+    expect(params.toString()).toBe('sender=jane&minAmount=0&sort=amount&order=desc');
+  });
+
+  it('round-trips through parseLedgerQuery', () => {
+    const query = { q: 'exam week', maxAmount: 250, sort: 'sender' as const, order: 'asc' as const, page: 2 };
+
+    expect(parseLedgerQuery(toLedgerSearchParams(query))).toEqual(query);
+  });
+});
+
+describe('hasLedgerFilters', () => {
+  it('ignores sort and page', () => {
+    expect(hasLedgerFilters({ sort: 'amount', order: 'asc', page: 2 })).toBe(false);
+    expect(hasLedgerFilters({ minAmount: 0 })).toBe(true);
+  });
+});
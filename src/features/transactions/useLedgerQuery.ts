@@ -0,0 +1,74 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { SortOrder, TransactionFilters, TransactionQuery, TransactionSortField } from '../../services/types';
+
+const SORT_FIELDS: TransactionSortField[] = ['timestamp', 'amount', 'sender', 'recipient'];
+const TEXT_KEYS = ['sender', 'recipient', 'from', 'to', 'q'] as const;
+const NUMBER_KEYS = ['minAmount', 'maxAmount'] as const;
+
+// Filters live in the query string so a filtered ledger can be bookmarked and shared
+export const parseLedgerQuery = (params: URLSearchParams): TransactionQuery => {
+  const query: TransactionQuery = {};
+
+  TEXT_KEYS.forEach((key) => {
+    const value = params.get(key)?.trim();
+    if (value) query[key] = value;
+  });
+  NUMBER_KEYS.forEach((key) => {
+    const value = Number(params.get(key));
+    if (params.get(key) && Number.isFinite(value)) query[key] = value;
+  });
+
+  const sort = params.get('sort') as TransactionSortField | null;
+  if (sort && SORT_FIELDS.includes(sort)) {
+    query.sort = sort;
+    query.order = params.get('order') === 'asc' ? 'asc' : 'desc';
+  }
+
+  const page = Number(params.get('page'));
+  if (Number.isInteger(page) && page > 1) query.page = page;
+
+  return query;
+};
+
+export const toLedgerSearchParams = (query: TransactionQuery) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '' && !(key === 'page' && value === 1)) {
+      params.set(key, String(value));
+    }
+  });
+  return params;
+};
+
+export const hasLedgerFilters = (query: TransactionQuery) =>
+  [...TEXT_KEYS, ...NUMBER_KEYS].some((key) => query[key] !== undefined);
+
+export const useLedgerQuery = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseLedgerQuery(searchParams), [searchParams]);
+
+  const update = useCallback(
+    (next: TransactionQuery) => setSearchParams(toLedgerSearchParams(next), { replace: true }),
+    [setSearchParams]
+  );
+
+  // Changing filters or sort starts again from the first page
+  const setFilters = useCallback(
+    (filters: TransactionFilters) => update({ ...filters, sort: query.sort, order: query.order }),
+    [update, query.sort, query.order]
+  );
+
+  const setPage = useCallback((page: number) => update({ ...query, page }), [update, query]);
+
+  // Clicking the active column flips the order; a new column starts descending
+  const toggleSort = useCallback(
+    (field: TransactionSortField) => {
+      const order: SortOrder = query.sort === field && query.order === 'desc' ? 'asc' : 'desc';
+      update({ ...query, sort: field, order, page: 1 });
+    },
+    [update, query]
+  );
+
+  return { query, page: query.page ?? 1, setFilters, setPage, toggleSort };
+};
@@ -0,0 +1,69 @@
+import { sessionExpired } from '../auth/authSlice';
+import reducer, {
+  TransfersState,
+  transferConfirmed,
+  transferDismissed,
+  transferFailed,
+  transferSubmitted,
+} from './transfersSlice';
+
+const submitted = (idempotencyKey: string, amount = 100) =>
+  transferSubmitted({ idempotencyKey, recipientId: 2, recipientName: 'Jane', amount });
+
+const submit = (...keys: string[]) =>
+  keys.reduce<TransfersState>((state, key) => reducer(state, submitted(key)), reducer(undefined, { type: 'init' }));
+
+describe('transfersSlice', () => {
+  it('tracks a submitted transfer as pending, newest first', () => {
+    const state = submit('a', 'b');
+
+    expect(state.items.map((item) => [item.idempotencyKey, item.status])).toEqual([
+      ['b', 'pending'],
+      ['a', 'pending'],
+    ]);
+    expect(state.items[0].submittedAt).toEqual(expect.any(String));
+  });
+
+  it('replaces a retried transfer instead of duplicating it', () => {
+    let state = reducer(submit('a'), transferFailed({ idempotencyKey: 'a', error: 'Timeout' }));
+    state = reducer(state, submitted('a'));
+
+    expect(state.items).toHaveLength(1);
+    expect(state.items[0]).toMatchObject({ status: 'pending' });
+  });
+
+  it('confirms with the transaction id and clears an earlier error', () => {
+    let state = reducer(submit('a'), transferFailed({ idempotencyKey: 'a', error: 'Timeout' }));
+    state = reducer(state, transferConfirmed({ idempotencyKey: 'a', transactionId: 9 }));
+
+    expect(state.items[0]).toMatchObject({ status: 'confirmed', transactionId: 9, error: undefined });
+  });
+
+  it('marks a held transfer as awaiting approval', () => {
+    const state = reducer(submit('a'), transferConfirmed({ idempotencyKey: 'a', approvalRequestId: 3 }));
+
+    expect(state.items[0]).toMatchObject({ status: 'awaiting-approval', approvalRequestId: 3 });
+  });
+
+  it('records failures with their message', () => {
+    const state = reducer(submit('a'), transferFailed({ idempotencyKey: 'a', error: 'Insufficient balance' }));
+
+    expect(state.items[0]).toMatchObject({ status: 'failed', error: 'Insufficient balance' });
+  });
+
+  it('ignores updates for unknown transfers', () => {
+    const state = submit('a');
+
+    expect(reducer(state, transferConfirmed({ idempotencyKey: 'zzz', transactionId: 1 }))).toEqual(state);
+  });
+
+  it('dismisses a single transfer', () => {
+    const state = reducer(submit('a', 'b'), transferDismissed('a'));
+
+    expect(state.items.map((item) => item.idempotencyKey)).toEqual(['b']);
+  });
+
+  it('forgets everything when the session ends', () => {
+    expect(reducer(submit('a', 'b'), sessionExpired()).items).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { AllocatePointsPayload } from '../../services/types';
+import { logoutUser, sessionExpired } from '../auth/authSlice';
+
+// Types
+export type TransferStatus = 'pending' | 'confirmed' | 'awaiting-approval' | 'failed';
+
+// An allocation submitted from this browser, tracked until it is confirmed or fails
+export interface TrackedTransfer extends AllocatePointsPayload {
+  idempotencyKey: string;
+  recipientName?: string;
+  status: TransferStatus;
+  submittedAt: string;
+  transactionId?: number;
+  approvalRequestId?: number;
+  error?: string;
+}
+
+export interface TransfersState {
+  items: TrackedTransfer[];
+}
+
+const initialState: TransfersState = {
+  items: [],
+};
+
+// Slice
+const transfersSlice = createSlice({
+  name: 'transfers',
+  initialState,
+  reducers: {
+    transferSubmitted: (state, action: PayloadAction<Omit<TrackedTransfer, 'status' | 'submittedAt'>>) => {
+      // Retrying a failed transfer reuses its key, so replace rather than duplicate
+      state.items = state.items.filter((item) => item.idempotencyKey !== action.payload.idempotencyKey);
+      state.items.unshift({ ...action.payload, status: 'pending', submittedAt: new Date().toISOString() });
+    },
+    transferConfirmed: (
+      state,
+      action: PayloadAction<{ idempotencyKey: string; transactionId?: number; approvalRequestId?: number }>
+    ) => {
+      const item = state.items.find((t) => t.idempotencyKey === action.payload.idempotencyKey);
+      if (item) {
+        // Accepted by the server but held for a second admin's approval
+        item.status = action.payload.approvalRequestId ? 'awaiting-approval' : 'confirmed';
+        item.transactionId = action.payload.transactionId;
+        item.approvalRequestId = action.payload.approvalRequestId;
+        item.error = undefined;
+      }
+    },
+    transferFailed: (state, action: PayloadAction<{ idempotencyKey: string; error: string }>) => {
+      const item = state.items.find((t) => t.idempotencyKey === action.payload.idempotencyKey);
+      if (item) {
+        item.status = 'failed';
+        item.error = action.payload.error;
+      }
+    },
+    transferDismissed: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter((item) => item.idempotencyKey !== action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(logoutUser.fulfilled, () => initialState)
+      .addCase(logoutUser.rejected, () => initialState)
+      .addCase(sessionExpired, () => initialState);
+  },
+});
+
+export const { transferSubmitted, transferConfirmed, transferFailed, transferDismissed } = transfersSlice.actions;
+export default transfersSlice.reducer;
@@ -0,0 +1,17 @@
+import { apiSlice, fromService } from '../api/apiSlice';
+import { fetchUsers } from '../../services/users';
+import type { Paginated, StaffMember, UserQuery } from '../../services/types';
+
+export const usersApi = apiSlice.injectEndpoints({
+  endpoints: (builder) => ({
+    getUsers: builder.query<Paginated<StaffMember>, UserQuery>({
+      queryFn: (params) => fromService(() => fetchUsers(params), 'Failed to fetch users'),
+      providesTags: (result) => [
+        { type: 'User' as const, id: 'LIST' },
+        ...(result?.items.map(({ id }) => ({ type: 'User' as const, id })) ?? []),
+      ],
+    }),
+  }),
+});
+
+export const { useGetUsersQuery } = usersApi;
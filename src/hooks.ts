@@ -1,5 +1,26 @@
+import { useEffect, useState } from 'react';
 import { TypedUseSelectorHook, useDispatch, useSelector } from 'react-redux';
 import type { RootState, AppDispatch } from './store';
+import { notifyApiError } from './utils/apiError';
 
 export const useAppDispatch: () => AppDispatch = useDispatch;
 export const useAppSelector: TypedUseSelectorHook<RootState> = useSelector;
+
+// Follows `value` once it has stopped changing for `delayMs`, e.g. to search as the user types
+export const useDebouncedValue = <T>(value: T, delayMs = 300) => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delayMs);
+    return () => window.clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+};
+
+// Toasts an RTK Query error once per distinct error object
+export const useApiErrorToast = (error: unknown, fallbackMessage: string) => {
+  useEffect(() => {
+    if (error) notifyApiError(error, fallbackMessage);
+  }, [error, fallbackMessage]);
+};
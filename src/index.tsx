@@ -2,23 +2,35 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
+import AuthGate from './components/AuthGate';
+import ServerStatusBanner from './components/ServerStatusBanner';
 import reportWebVitals from './reportWebVitals';
 import 'bootstrap/dist/css/bootstrap.min.css';
 import { Provider } from 'react-redux';
 import { store } from './store';
+import { getConfig, loadRuntimeConfig } from './config';
+import api from './utils/axios';
 // import { BrowserRouter } from 'react-router-dom'; // ✅ Import BrowserRouter
 
 const container = document.getElementById('root') as HTMLElement;
 const root = ReactDOM.createRoot(container);
 
-root.render(
-  <React.StrictMode>
-    <Provider store={store}>
-      {/* <BrowserRouter> ✅ Wrap App with BrowserRouter */}
-        <App />
-      {/* </BrowserRouter> */}
-    </Provider>
-  </React.StrictMode>
-);
+// Runtime config.json may point the app at another backend, so resolve it before the first request
+loadRuntimeConfig().then(() => {
+  api.defaults.baseURL = getConfig().apiUrl;
+
+  root.render(
+    <React.StrictMode>
+      <Provider store={store}>
+        {/* <BrowserRouter> ✅ Wrap App with BrowserRouter */}
+          <ServerStatusBanner />
+          <AuthGate>
+            <App />
+          </AuthGate>
+        {/* </BrowserRouter> */}
+      </Provider>
+    </React.StrictMode>
+  );
+});
 
 reportWebVitals();
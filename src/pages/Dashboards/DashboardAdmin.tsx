@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   Container,
   Row,
@@ -11,69 +11,91 @@ import {
   Pagination,
   Badge,
   Alert,
-  ListGroup,
   ProgressBar,
 } from 'react-bootstrap';
 import { motion } from 'framer-motion';
+import { Link, useLocation } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { toast } from 'react-toastify';
-import axios, { isAxiosError } from 'axios';
 import { FaUserTie, FaUser, FaExchangeAlt, FaCoins, FaHistory, FaChartLine } from 'react-icons/fa';
-
-interface User {
-  id: number;
-  email: string;
-  name: string;
-  role: 'ADMIN' | 'EMPLOYEE';
-  staffPoints: number | null;
-  lastLogin?: string;
-}
-
-interface Transaction {
-  id: number;
-  senderId: number;
-  recipientId: number;
-  amount: number;
-  timestamp: string;
-  senderName?: string;
-  recipientName?: string;
-}
-
-interface AdminBalance {
-  availablePoints: number;
-  allocatedPoints: number;
-  totalTransactions: number;
-}
+import { useGetTransactionsQuery } from '../../features/transactions/transactionsApi';
+import { useGetAdminBalanceQuery, useInitializeAdminPointsMutation } from '../../features/admin/adminApi';
+import { useAllocatePointsMutation } from '../../features/staffPoints/staffPointsApi';
+import type { AllocatePointsPayload, AllocationResult, StaffMember, Transaction } from '../../services/types';
+import { notifyApiError } from '../../utils/apiError';
+import InvitationsPanel from '../../components/admin/InvitationsPanel';
+import TransferReviewModal from '../../components/admin/TransferReviewModal';
+import BulkAllocationPanel from '../../components/admin/BulkAllocationPanel';
+import PendingApprovalsPanel from '../../components/admin/PendingApprovalsPanel';
+import SchedulesPanel from '../../components/admin/SchedulesPanel';
+import StaffDirectory from '../../components/admin/StaffDirectory';
+import RecipientPicker from '../../components/admin/RecipientPicker';
+import LedgerExportMenu from '../../components/admin/LedgerExportMenu';
+import ReverseTransactionModal from '../../components/admin/ReverseTransactionModal';
+import TransactionBadges from '../../components/TransactionBadges';
+import TransactionDrawer, { transactionRowProps } from '../../components/TransactionDrawer';
+import TransactionFilterBar from '../../components/TransactionFilterBar';
+import SortableHeader from '../../components/SortableHeader';
+import { hasLedgerFilters, useLedgerQuery } from '../../features/transactions/useLedgerQuery';
+import { getConfig } from '../../config';
+import { useApiErrorToast, useAppDispatch, useAppSelector } from '../../hooks';
+import { TrackedTransfer, transferDismissed } from '../../features/transfers/transfersSlice';
+import { createIdempotencyKey } from '../../utils/idempotency';
 
 const schema = yup.object().shape({
   recipientId: yup.number().required('Recipient is required').positive().integer(),
-  amount: yup.number().required('Amount is required').positive().integer().min(1, 'Amount must be at least 1'),
+  amount: yup
+    .number()
+    .required('Amount is required')
+    .positive()
+    .integer()
+    .min(1, 'Amount must be at least 1')
+    .test('within-balance', 'Amount exceeds your available balance', function (value) {
+      const availablePoints: number | undefined = this.options.context?.availablePoints;
+      return availablePoints === undefined || value === undefined || value <= availablePoints;
+    }),
   note: yup.string().max(100, 'Note must be less than 100 characters').optional(),
 });
 
-const API_URL = 'https://backend-g4qt.onrender.com';
+const TRANSFER_STATUS_VARIANTS: Record<TrackedTransfer['status'], string> = {
+  pending: 'warning',
+  confirmed: 'success',
+  'awaiting-approval': 'info',
+  failed: 'danger',
+};
 
 export default function DashboardAdmin() {
-  const [users, setUsers] = useState<User[]>([]);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [balance, setBalance] = useState<AdminBalance | null>(null);
-  const [loading, setLoading] = useState({
-    users: false,
-    transactions: false,
-    balance: false,
-    submitting: false,
-  });
-const [userPage, setUserPage] = useState(1);
-const [userTotalPages, setUserTotalPages] = useState(1);
+  const { user: currentUser } = useAppSelector((state) => state.auth);
+  const trackedTransfers = useAppSelector((state) => state.transfers.items);
+  const dispatch = useAppDispatch();
+  const location = useLocation();
+  const ledger = useLedgerQuery();
+  const { page: transactionPage, setPage: setTransactionPage } = ledger;
+
+  // Kept alongside recipientId so the review modal and tracked transfer can show who it is
+  const [selectedUser, setSelectedUser] = useState<StaffMember | null>(null);
+  const limit = 10;
 
-const [transactionPage, setTransactionPage] = useState(1);
-const [transactionTotalPages, setTransactionTotalPages] = useState(1);
+  // Cached and deduplicated by RTK Query; mutations below invalidate what they change
+  const transactionsQuery = useGetTransactionsQuery({ ...ledger.query, page: transactionPage, limit });
+  const balanceQuery = useGetAdminBalanceQuery();
+  const [allocatePoints, allocation] = useAllocatePointsMutation();
+  const [initializePoints, initialization] = useInitializeAdminPointsMutation();
 
-  const [totalPages, setTotalPages] = useState(1);
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const limit = 10;
+  useApiErrorToast(transactionsQuery.error, 'Failed to fetch transactions');
+  useApiErrorToast(balanceQuery.error, 'Failed to fetch balance');
+
+  const transactions = transactionsQuery.data?.items ?? [];
+  const transactionTotalPages = transactionsQuery.data?.totalPages ?? 1;
+  const balance = balanceQuery.data ?? null;
+
+  const loading = {
+    transactions: transactionsQuery.isFetching,
+    balance: balanceQuery.isFetching,
+    submitting: allocation.isLoading || initialization.isLoading,
+  };
 
   const {
     register,
@@ -84,6 +106,7 @@ const [transactionTotalPages, setTransactionTotalPages] = useState(1);
     formState: { errors },
   } = useForm({
     resolver: yupResolver(schema),
+    context: { availablePoints: balance?.availablePoints },
     defaultValues: {
       recipientId: 0,
       amount: 100,
@@ -93,147 +116,88 @@ const [transactionTotalPages, setTransactionTotalPages] = useState(1);
 
   const recipientId = watch('recipientId');
 
-  const setLoadingState = (key: keyof typeof loading, value: boolean) =>
-    setLoading((prev) => ({ ...prev, [key]: value }));
-
-  const handleAxiosError = (error: unknown, defaultMessage: string) => {
-    if (isAxiosError(error)) {
-      const status = error.response?.status;
-      const message = error.response?.data?.message || defaultMessage;
-      if (status === 401) {
-        toast.error('Unauthorized: Please log in again');
-      } else if (status === 400) {
-        toast.error(`Bad Request: ${message}`);
-      } else {
-        toast.error(message);
-      }
+  // Resubmitting the same transfer after a failure or timeout reuses its key, so the backend applies it at most once
+  const lastAttempt = useRef<{ fingerprint: string; idempotencyKey: string } | null>(null);
+
+  const submitTransfer = (payload: AllocatePointsPayload, idempotencyKey: string, recipientName?: string) =>
+    allocatePoints({ payload, idempotencyKey, recipientName }).unwrap();
+
+  const announceTransfer = (result: AllocationResult, amount: number) => {
+    if (result.approvalRequest) {
+      toast.info(`Transfer of ${amount} points is waiting for another admin's approval`);
     } else {
-      toast.error(defaultMessage);
+      toast.success(`Successfully transferred ${amount} points`);
     }
   };
-const fetchUsers = (page = 1, limit = 10) => {
-  setLoadingState('users', true);
-  axios
-    .get(`${API_URL}/api/users`, {
-      headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
-      params: { page, limit },
-    })
-    .then((response) => {
-      const allUsers = response.data.users || []; // ✅ correct key
-      setUsers(allUsers);
-    setUserTotalPages(Math.ceil((response.data.total || 0) / limit));
-
-    })
-    .catch((error) => {
-      handleAxiosError(error, 'Failed to fetch users');
-      setUsers([]);
-    })
-    .finally(() => setLoadingState('users', false));
-};
 
+  const [reversingTransaction, setReversingTransaction] = useState<Transaction | null>(null);
+  const [detailId, setDetailId] = useState<number | null>(null);
 
-  const fetchTransactions = (page: number) => {
-    setLoadingState('transactions', true);
-    axios
-      .get(`${API_URL}/api/transactions?page=${page}&limit=${limit}`, {
-        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
-      })
-      .then((response) => {
-        const processedTransactions = response.data.transactions?.map((tx: Transaction) => ({
-          ...tx,
-          senderName: tx.senderName || 'System',
-          recipientName: tx.recipientName || 'Unknown'
-        })) || [];
-        
-        setTransactions(processedTransactions);
-setTransactionTotalPages(Math.ceil(response.data.total / limit));
+  // Validated form data waiting for confirmation in the review modal
+  const [reviewTransfer, setReviewTransfer] = useState<AllocatePointsPayload | null>(null);
 
-      })
-      .catch((error) => {
-        handleAxiosError(error, 'Failed to fetch transactions');
-        setTransactions([]);
-      })
-      .finally(() => setLoadingState('transactions', false));
+  const onSubmit = (data: AllocatePointsPayload) => {
+    setReviewTransfer(data);
   };
 
-  const fetchAdminBalance = () => {
-    setLoadingState('balance', true);
-    axios
-      .get(`${API_URL}/api/admin/balance`, {
-        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
-      })
-      .then((response) => {
-        setBalance({
-          availablePoints: Math.floor(Number(response.data.availablePoints)),
-          allocatedPoints: Math.floor(Number(response.data.allocatedPoints)),
-          totalTransactions: response.data.totalTransactions || 0,
-        });
-      })
-      .catch((error) => {
-        handleAxiosError(error, 'Failed to fetch balance');
-        setBalance(null);
-      })
-      .finally(() => setLoadingState('balance', false));
-  };
-
- useEffect(() => {
-  fetchUsers(userPage, limit);
-}, [userPage, limit]);
-
-useEffect(() => {
-  fetchTransactions(transactionPage);
-}, [transactionPage]);
-
-useEffect(() => {
-  fetchAdminBalance();
-}, []);
+  const confirmTransfer = () => {
+    const data = reviewTransfer;
+    if (!data || allocation.isLoading) return;
 
+    const fingerprint = JSON.stringify([Number(data.recipientId), Number(data.amount), data.note || '']);
+    if (lastAttempt.current?.fingerprint !== fingerprint) {
+      lastAttempt.current = { fingerprint, idempotencyKey: createIdempotencyKey() };
+    }
 
-  const onSubmit = (data: any) => {
-    setLoadingState('submitting', true);
-    axios
-      .post(`${API_URL}/api/staff-points/allocate`, data, {
-        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
-      })
-      .then(() => {
-        toast.success(`Successfully transferred ${data.amount} points`);
+    submitTransfer(data, lastAttempt.current.idempotencyKey, selectedUser?.name)
+      .then((result) => {
+        announceTransfer(result, data.amount);
+        lastAttempt.current = null;
         reset();
-        fetchUsers();
-        fetchAdminBalance();
-        fetchTransactions(transactionPage);
+        setSelectedUser(null);
       })
       .catch((error) => {
-        handleAxiosError(error, 'Failed to allocate points');
+        notifyApiError(error, 'Failed to allocate points');
       })
-      .finally(() => setLoadingState('submitting', false));
+      .finally(() => setReviewTransfer(null));
   };
 
-  const handlePageChange = (page: number) => {
-    if (page >= 1 && page <= totalPages) {
-      // transactionTotalPages(page);
-    }
+  const retryTransfer = ({ idempotencyKey, recipientId, recipientName, amount, note }: TrackedTransfer) => {
+    submitTransfer({ recipientId, amount, note }, idempotencyKey, recipientName)
+      .then((result) => announceTransfer(result, amount))
+      .catch((error) => notifyApiError(error, 'Failed to allocate points'));
   };
 
+  // Confirmed transfers show up in the refreshed ledger (held ones in Pending Approvals),
+  // so drop their placeholder rows shortly after
+  useEffect(() => {
+    const confirmed = trackedTransfers.filter((t) => t.status === 'confirmed' || t.status === 'awaiting-approval');
+    if (confirmed.length === 0) return;
+    const timer = window.setTimeout(() => {
+      confirmed.forEach((t) => dispatch(transferDismissed(t.idempotencyKey)));
+    }, 5000);
+    return () => window.clearTimeout(timer);
+  }, [trackedTransfers, dispatch]);
+
+  // Deep links such as the navbar's Approvals entry point at a panel on this page
+  useEffect(() => {
+    if (location.hash) document.getElementById(location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+  }, [location.hash]);
+
   const initializeAdminPoints = () => {
-    setLoadingState('submitting', true);
-    axios
-      .post(`${API_URL}/api/admin/points/initialize`, {}, {
-        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
-      })
+    initializePoints()
+      .unwrap()
       .then(() => {
         toast.success('Admin points initialized successfully');
-        fetchUsers();
-        fetchAdminBalance();
       })
       .catch((error) => {
-        handleAxiosError(error, 'Failed to initialize admin points');
-      })
-      .finally(() => setLoadingState('submitting', false));
+        notifyApiError(error, 'Failed to initialize admin points');
+      });
   };
 
-  const selectUserForTransfer = (user: User) => {
+  const selectUserForTransfer = (user: StaffMember) => {
     setSelectedUser(user);
-    setValue('recipientId', user.id);
+    setValue('recipientId', user.id, { shouldValidate: true });
   };
 
   return (
@@ -339,7 +303,7 @@ useEffect(() => {
             background-color: rgba(0, 82, 204, 0.05);
           }
           
-          .bank-user-list-item.active {
+          .bank-user-list-item.selected {
             background-color: rgba(0, 82, 204, 0.1);
             border-left: 3px solid #0052cc;
           }
@@ -383,6 +347,15 @@ useEffect(() => {
           StaffPoints Banking Dashboard
         </motion.h2>
 
+        {currentUser && !currentUser.twoFactorEnabled && (
+          <Alert variant="warning" className="d-flex align-items-center">
+            <span>Your admin account is not protected by two-factor authentication.</span>
+            <Link to="/settings/security" className="btn btn-sm btn-warning ms-auto">
+              Set up 2FA
+            </Link>
+          </Alert>
+        )}
+
         {/* Balance Overview */}
         <Row className="mb-4 mb-md-5 g-3 g-md-4">
           <Col md={6} lg={4}>
@@ -464,6 +437,13 @@ useEffect(() => {
           </Col>
         </Row>
 
+        {/* Maker-checker queue */}
+        <Row className="g-4 mb-4">
+          <Col xs={12}>
+            <PendingApprovalsPanel />
+          </Col>
+        </Row>
+
         {/* Main Content */}
         <Row className="g-4">
           {/* User List and Transfer Form */}
@@ -472,46 +452,9 @@ useEffect(() => {
               <Card.Header className="bank-card-header d-flex align-items-center">
                 <FaUserTie className="bank-icon" />
                 <span>Staff Directory</span>
-                <Badge bg="light" text="dark" className="ms-auto">
-                  {users.length} users
-                </Badge>
               </Card.Header>
               <Card.Body className="p-0">
-                {loading.users ? (
-                  <div className="text-center py-5">
-                    <Spinner animation="border" variant="primary" />
-                  </div>
-                ) : (
-                  <ListGroup variant="flush">
-                    {users.map((user) => (
-                      <ListGroup.Item
-                        key={user.id}
-                        className={`bank-user-list-item ${recipientId === user.id ? 'active' : ''}`}
-                        onClick={() => selectUserForTransfer(user)}
-                      >
-                        <div className="d-flex align-items-center">
-                          <div className="bank-user-avatar">
-                            {user.name.charAt(0).toUpperCase()}
-                          </div>
-                          <div>
-                            <h6 className="mb-0">{user.name}</h6>
-                            <small className="text-muted">
-                              {user.role === 'ADMIN' ? (
-                                <Badge bg="primary" pill>Admin</Badge>
-                              ) : (
-                                <Badge bg="secondary" pill>Employee</Badge>
-                              )}{' '}
-                              • {user.email}
-                            </small>
-                          </div>
-                          <div className="ms-auto text-end">
-                            <strong>{user.staffPoints?.toLocaleString() || '0'} pts</strong>
-                          </div>
-                        </div>
-                      </ListGroup.Item>
-                    ))}
-                  </ListGroup>
-                )}
+                <StaffDirectory selectedId={Number(recipientId)} onSelect={selectUserForTransfer} />
               </Card.Body>
             </Card>
           </Col>
@@ -527,26 +470,17 @@ useEffect(() => {
                   </Card.Header>
                   <Card.Body>
                     <Form onSubmit={handleSubmit(onSubmit)}>
+                      {/* Locked until the allocation response arrives */}
+                      <fieldset disabled={allocation.isLoading}>
                       <Row className="g-3">
                         <Col md={6}>
                           <Form.Group>
                             <Form.Label>Recipient</Form.Label>
-                            <Form.Control
-                              as="select"
-                              {...register('recipientId')}
-                              className={`bank-form-control ${errors.recipientId ? 'is-invalid' : ''}`}
-                              disabled={loading.users}
-                            >
-                              <option value="">Select recipient</option>
-                              {users.map((user) => (
-                                <option key={user.id} value={user.id}>
-                                  {user.name} ({user.role === 'ADMIN' ? 'Admin' : 'Employee'})
-                                </option>
-                              ))}
-                            </Form.Control>
-                            {errors.recipientId && (
-                              <div className="invalid-feedback">{errors.recipientId.message}</div>
-                            )}
+                            <RecipientPicker
+                              recipient={selectedUser}
+                              onChange={selectUserForTransfer}
+                              error={errors.recipientId?.message}
+                            />
                           </Form.Group>
                         </Col>
                         <Col md={6}>
@@ -588,7 +522,7 @@ useEffect(() => {
                               ) : (
                                 <>
                                   <FaExchangeAlt className="me-2" />
-                                  Transfer Points
+                                  Review Transfer
                                 </>
                               )}
                             </Button>
@@ -606,6 +540,7 @@ useEffect(() => {
                           </div>
                         </Col>
                       </Row>
+                      </fieldset>
                     </Form>
                   </Card.Body>
                 </Card>
@@ -616,11 +551,13 @@ useEffect(() => {
                   <Card.Header className="bank-card-header d-flex align-items-center">
                     <FaHistory className="bank-icon" />
                     <span>Recent Transactions</span>
-                    <Badge bg="light" text="dark" className="ms-auto">
-                      Page {} of {totalPages}
+                    <Badge bg="light" text="dark" className="ms-auto me-2">
+                      Page {transactionPage} of {transactionTotalPages}
                     </Badge>
+                    <LedgerExportMenu query={ledger.query} />
                   </Card.Header>
                   <Card.Body>
+                    <TransactionFilterBar filters={ledger.query} onApply={ledger.setFilters} />
                     {loading.transactions ? (
                       <div className="text-center py-5">
                         <Spinner animation="border" variant="primary" />
@@ -632,20 +569,58 @@ useEffect(() => {
                             <thead>
                               <tr>
                                 <th>ID</th>
-                                <th>From</th>
-                                <th>To</th>
-                                <th>Amount</th>
-                                <th>Date</th>
+                                <SortableHeader field="sender" label="From" sort={ledger.query.sort} order={ledger.query.order} onSort={ledger.toggleSort} />
+                                <SortableHeader field="recipient" label="To" sort={ledger.query.sort} order={ledger.query.order} onSort={ledger.toggleSort} />
+                                <SortableHeader field="amount" label="Amount" sort={ledger.query.sort} order={ledger.query.order} onSort={ledger.toggleSort} />
+                                <SortableHeader field="timestamp" label="Date" sort={ledger.query.sort} order={ledger.query.order} onSort={ledger.toggleSort} />
+                                <th></th>
                               </tr>
                             </thead>
                             <tbody>
+                              {transactionPage === 1 && !hasLedgerFilters(ledger.query) && trackedTransfers.map((transfer) => (
+                                <tr key={transfer.idempotencyKey} className={transfer.status === 'failed' ? 'table-danger' : 'table-light'}>
+                                  <td>
+                                    <Badge bg={TRANSFER_STATUS_VARIANTS[transfer.status]} className="text-uppercase">
+                                      {transfer.status.replace('-', ' ')}
+                                    </Badge>
+                                  </td>
+                                  <td>{currentUser?.name || 'You'}</td>
+                                  <td>{transfer.recipientName || `User #${transfer.recipientId}`}</td>
+                                  <td className="bank-transaction-positive">
+                                    +{Number(transfer.amount).toLocaleString()} pts
+                                  </td>
+                                  <td>
+                                    {transfer.status === 'failed' ? (
+                                      <div className="d-flex align-items-center gap-2">
+                                        <small className="text-danger">{transfer.error}</small>
+                                        <Button size="sm" variant="outline-primary" onClick={() => retryTransfer(transfer)} disabled={allocation.isLoading}>
+                                          Retry
+                                        </Button>
+                                        <Button size="sm" variant="link" onClick={() => dispatch(transferDismissed(transfer.idempotencyKey))}>
+                                          Dismiss
+                                        </Button>
+                                      </div>
+                                    ) : (
+                                      new Date(transfer.submittedAt).toLocaleString()
+                                    )}
+                                  </td>
+                                  <td></td>
+                                </tr>
+                              ))}
                               {transactions.map((tx) => {
                                 const senderInitial = tx.senderName?.charAt(0)?.toUpperCase() || 'S';
                                 const recipientInitial = tx.recipientName?.charAt(0)?.toUpperCase() || 'R';
                                 
                                 return (
-                                  <tr key={tx.id}>
-                                    <td>{tx.id}</td>
+                                  <tr
+                                    key={tx.id}
+                                    className={tx.reversedById ? 'text-muted' : undefined}
+                                    {...transactionRowProps(() => setDetailId(tx.id))}
+                                  >
+                                    <td>
+                                      {tx.id}
+                                      <TransactionBadges transaction={tx} />
+                                    </td>
                                     <td>
                                       <div className="d-flex align-items-center">
                                         <div className="bank-user-avatar small">
@@ -668,9 +643,27 @@ useEffect(() => {
                                     <td>
                                       {new Date(tx.timestamp).toLocaleString()}
                                     </td>
+                                    <td className="text-end">
+                                      {/* Redemptions are undone through the refund flow, which also restores stock */}
+                                      {!tx.reversedById && tx.type !== 'REVERSAL' && tx.type !== 'REDEMPTION' && (
+                                        <Button size="sm" variant="outline-danger" onClick={(e) => {
+                                            e.stopPropagation();
+                                            setReversingTransaction(tx);
+                                          }}>
+                                          Reverse
+                                        </Button>
+                                      )}
+                                    </td>
                                   </tr>
                                 );
                               })}
+                              {transactions.length === 0 && hasLedgerFilters(ledger.query) && (
+                                <tr>
+                                  <td colSpan={6} className="text-center text-muted py-4">
+                                    No transactions match these filters.
+                                  </td>
+                                </tr>
+                              )}
                             </tbody>
                           </Table>
                         </div>
@@ -729,6 +722,45 @@ useEffect(() => {
             </Row>
           </Col>
         </Row>
+
+        <TransactionDrawer transactionId={detailId} onClose={() => setDetailId(null)} />
+
+        <ReverseTransactionModal
+          transaction={reversingTransaction}
+          onClose={() => setReversingTransaction(null)}
+        />
+
+        <TransferReviewModal
+          transfer={reviewTransfer}
+          recipient={selectedUser ?? undefined}
+          balance={balance}
+          confirmationThreshold={getConfig().transferConfirmationThreshold}
+          approvalThreshold={getConfig().approvalThreshold}
+          submitting={allocation.isLoading}
+          onConfirm={confirmTransfer}
+          onCancel={() => setReviewTransfer(null)}
+        />
+
+        {/* Bulk Allocation */}
+        <Row className="g-4 mt-1">
+          <Col xs={12}>
+            <BulkAllocationPanel balance={balance} />
+          </Col>
+        </Row>
+
+        {/* Scheduled Allocations */}
+        <Row className="g-4 mt-1">
+          <Col xs={12}>
+            <SchedulesPanel />
+          </Col>
+        </Row>
+
+        {/* Staff Invitations */}
+        <Row className="g-4 mt-1">
+          <Col xs={12}>
+            <InvitationsPanel />
+          </Col>
+        </Row>
       </Container>
     </motion.div>
   );
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import {
   Container,
   Row,
@@ -9,75 +9,38 @@ import {
   Pagination,
   Badge,
   Alert,
+  Button,
+  ButtonGroup,
 } from 'react-bootstrap';
 import { motion } from 'framer-motion';
-import { useAppSelector } from '../../hooks';
-import { toast } from 'react-toastify';
-import axios, { isAxiosError } from 'axios';
-import { FaCoins, FaHistory } from 'react-icons/fa';
-
-interface Transaction {
-  id: number;
-  senderId: number;
-  recipientId: number;
-  amount: number;
-  timestamp: string;
-  senderName?: string;
-  recipientName?: string;
-}
-
-const API_URL = 'https://backend-g4qt.onrender.com';
+import { useApiErrorToast, useAppSelector } from '../../hooks';
+import { FaCoins, FaFilePdf, FaHistory } from 'react-icons/fa';
+import { useGetMyTransactionsQuery } from '../../features/transactions/transactionsApi';
+import SendKudosForm from '../../components/employee/SendKudosForm';
+import StatementDownloadModal from '../../components/employee/StatementDownloadModal';
+import StatementView from '../../components/employee/StatementView';
+import TransactionBadges from '../../components/TransactionBadges';
+import TransactionDrawer, { transactionRowProps } from '../../components/TransactionDrawer';
+import TransactionFilterBar from '../../components/TransactionFilterBar';
+import SortableHeader from '../../components/SortableHeader';
+import { hasLedgerFilters, useLedgerQuery } from '../../features/transactions/useLedgerQuery';
 
 export default function DashboardEmployee() {
   const { user } = useAppSelector((state) => state.auth);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [loading, setLoading] = useState({
-    transactions: false,
-  });
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
+  const ledger = useLedgerQuery();
+  const { page: currentPage, setPage: setCurrentPage } = ledger;
   const limit = 10;
+  const [showStatement, setShowStatement] = useState(false);
+  const [view, setView] = useState<'history' | 'statement'>('history');
+  const [detailId, setDetailId] = useState<number | null>(null);
 
-  const token = localStorage.getItem('token');
-  const headers = { Authorization: `Bearer ${token}` };
-
-  const setLoadingState = (key: keyof typeof loading, value: boolean) =>
-    setLoading((prev) => ({ ...prev, [key]: value }));
+  const transactionsQuery = useGetMyTransactionsQuery({ ...ledger.query, page: currentPage, limit });
+  useApiErrorToast(transactionsQuery.error, 'Failed to fetch transactions');
 
-  const handleAxiosError = (error: unknown, defaultMessage: string) => {
-    if (isAxiosError(error)) {
-      const status = error.response?.status;
-      const message = error.response?.data?.message || defaultMessage;
-      if (status === 401) {
-        toast.error('Unauthorized: Please log in again');
-      } else if (status === 400) {
-        toast.error(`Bad Request: ${message}`);
-      } else {
-        toast.error(message);
-      }
-    } else {
-      toast.error(defaultMessage);
-    }
-  };
-
-  const fetchTransactions = (page: number) => {
-    setLoadingState('transactions', true);
-    axios
-      .get(`${API_URL}/api/transactions/user`, { headers, params: { page, limit } })
-      .then((response) => {
-        const processedTransactions = response.data.transactions?.map((tx: Transaction) => ({
-          ...tx,
-          senderName: tx.senderName || 'System',
-          recipientName: tx.recipientName || 'Unknown'
-        })) || [];
-        setTransactions(processedTransactions);
-        setTotalPages(Math.ceil(response.data.total / limit));
-      })
-      .catch((error) => {
-        handleAxiosError(error, 'Failed to fetch transactions');
-        setTransactions([]);
-      })
-      .finally(() => setLoadingState('transactions', false));
+  const transactions = transactionsQuery.data?.items ?? [];
+  const totalPages = transactionsQuery.data?.totalPages ?? 1;
+  const loading = {
+    transactions: transactionsQuery.isFetching,
   };
 
   const handlePageChange = (page: number) => {
@@ -86,10 +49,6 @@ export default function DashboardEmployee() {
     }
   };
 
-  useEffect(() => {
-    fetchTransactions(currentPage);
-  }, [currentPage, limit]);
-
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -206,6 +165,9 @@ export default function DashboardEmployee() {
               </Card.Body>
             </Card>
           </Col>
+          <Col md={6} lg={8}>
+            <SendKudosForm />
+          </Col>
         </Row>
 
         {/* Transaction History */}
@@ -215,78 +177,115 @@ export default function DashboardEmployee() {
               <Card.Header className="bank-card-header d-flex align-items-center">
                 <FaHistory className="bank-icon" />
                 <span>Your Transaction History</span>
-                <Badge bg="light" text="dark" className="ms-auto">
-                  Page {currentPage} of {totalPages}
-                </Badge>
+                <ButtonGroup size="sm" className="ms-auto me-2">
+                  <Button variant={view === 'history' ? 'primary' : 'outline-primary'} onClick={() => setView('history')}>
+                    History
+                  </Button>
+                  <Button variant={view === 'statement' ? 'primary' : 'outline-primary'} onClick={() => setView('statement')}>
+                    Statement
+                  </Button>
+                </ButtonGroup>
+                {view === 'history' && (
+                  <Badge bg="light" text="dark" className="me-2">
+                    Page {currentPage} of {totalPages}
+                  </Badge>
+                )}
+                <Button size="sm" variant="outline-secondary" onClick={() => setShowStatement(true)} title="Download PDF statement">
+                  <FaFilePdf className="me-1" />
+                  PDF
+                </Button>
               </Card.Header>
               <Card.Body className="p-0">
-                {loading.transactions ? (
-                  <div className="text-center py-5">
-                    <Spinner animation="border" variant="primary" />
-                  </div>
+                {view === 'statement' ? (
+                  <StatementView />
                 ) : (
                   <>
-                    <div className="table-responsive" style={{ maxHeight: '400px', overflowY: 'auto' }}>
-                      <Table hover className="align-middle mb-0">
-                        <thead style={{ position: 'sticky', top: 0, backgroundColor: 'white', zIndex: 1 }}>
-                          <tr>
-                            <th>From/To</th>
-                            <th>Amount</th>
-                            <th>Date</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {transactions.map((tx) => {
-                            const isSender = tx.senderId === user?.id;
-                            const counterpartyName = isSender ? tx.recipientName : tx.senderName;
-                            const counterpartyInitial = counterpartyName?.charAt(0)?.toUpperCase() || '?';
+                  <div className="px-3 pt-3">
+                    <TransactionFilterBar filters={ledger.query} onApply={ledger.setFilters} />
+                  </div>
+                  {loading.transactions ? (
+                    <div className="text-center py-5">
+                      <Spinner animation="border" variant="primary" />
+                    </div>
+                  ) : (
+                    <>
+                      <div className="table-responsive" style={{ maxHeight: '400px', overflowY: 'auto' }}>
+                        <Table hover className="align-middle mb-0">
+                          <thead style={{ position: 'sticky', top: 0, backgroundColor: 'white', zIndex: 1 }}>
+                            <tr>
+                              <th>From/To</th>
+                              <SortableHeader field="amount" label="Amount" sort={ledger.query.sort} order={ledger.query.order} onSort={ledger.toggleSort} />
+                              <SortableHeader field="timestamp" label="Date" sort={ledger.query.sort} order={ledger.query.order} onSort={ledger.toggleSort} />
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {transactions.map((tx) => {
+                              const isSender = tx.senderId === user?.id;
+                              const counterpartyName = isSender ? tx.recipientName : tx.senderName;
+                              const counterpartyInitial = counterpartyName?.charAt(0)?.toUpperCase() || '?';
                             
-                            return (
-                              <tr key={tx.id}>
-                                <td>
-                                  <div className="d-flex align-items-center">
-                                    <div className={`bank-user-avatar small ${isSender ? 'bg-danger' : 'bg-success'}`}>
-                                      {counterpartyInitial}
+                              return (
+                                <tr
+                                  key={tx.id}
+                                  className={tx.reversedById ? 'text-muted' : undefined}
+                                  {...transactionRowProps(() => setDetailId(tx.id))}
+                                >
+                                  <td>
+                                    <div className="d-flex align-items-center">
+                                      <div className={`bank-user-avatar small ${isSender ? 'bg-danger' : 'bg-success'}`}>
+                                        {counterpartyInitial}
+                                      </div>
+                                      <div>
+                                        <div className="fw-medium">
+                                          {isSender ? 'To' : 'From'}
+                                          <TransactionBadges transaction={tx} />
+                                        </div>
+                                        <div className="text-muted small">{counterpartyName}</div>
+                                      </div>
                                     </div>
-                                    <div>
-                                      <div className="fw-medium">{isSender ? 'To' : 'From'}</div>
-                                      <div className="text-muted small">{counterpartyName}</div>
-                                    </div>
-                                  </div>
-                                </td>
-                                <td className={isSender ? 'bank-transaction-negative' : 'bank-transaction-positive'}>
-                                  {isSender ? '-' : '+'}{tx.amount.toLocaleString()} pts
-                                </td>
-                                <td>
-                                  {new Date(tx.timestamp).toLocaleDateString()}
+                                  </td>
+                                  <td className={isSender ? 'bank-transaction-negative' : 'bank-transaction-positive'}>
+                                    {isSender ? '-' : '+'}{tx.amount.toLocaleString()} pts
+                                  </td>
+                                  <td>
+                                    {new Date(tx.timestamp).toLocaleDateString()}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                            {transactions.length === 0 && hasLedgerFilters(ledger.query) && (
+                              <tr>
+                                <td colSpan={3} className="text-center text-muted py-4">
+                                  No transactions match these filters.
                                 </td>
                               </tr>
-                            );
-                          })}
-                        </tbody>
-                      </Table>
-                    </div>
-                    <div className="d-flex justify-content-center mt-3 p-3">
-                      <Pagination>
-                        <Pagination.Prev
-                          onClick={() => handlePageChange(currentPage - 1)}
-                          disabled={currentPage === 1}
-                        />
-                        {Array.from({ length: Math.min(5, totalPages) }, (_, i) => (
-                          <Pagination.Item
-                            key={i + 1}
-                            active={i + 1 === currentPage}
-                            onClick={() => handlePageChange(i + 1)}
-                          >
-                            {i + 1}
-                          </Pagination.Item>
-                        ))}
-                        <Pagination.Next
-                          onClick={() => handlePageChange(currentPage + 1)}
-                          disabled={currentPage === totalPages}
-                        />
-                      </Pagination>
-                    </div>
+                            )}
+                          </tbody>
+                        </Table>
+                      </div>
+                      <div className="d-flex justify-content-center mt-3 p-3">
+                        <Pagination>
+                          <Pagination.Prev
+                            onClick={() => handlePageChange(currentPage - 1)}
+                            disabled={currentPage === 1}
+                          />
+                          {Array.from({ length: Math.min(5, totalPages) }, (_, i) => (
+                            <Pagination.Item
+                              key={i + 1}
+                              active={i + 1 === currentPage}
+                              onClick={() => handlePageChange(i + 1)}
+                            >
+                              {i + 1}
+                            </Pagination.Item>
+                          ))}
+                          <Pagination.Next
+                            onClick={() => handlePageChange(currentPage + 1)}
+                            disabled={currentPage === totalPages}
+                          />
+                        </Pagination>
+                      </div>
+                    </>
+                  )}
                   </>
                 )}
               </Card.Body>
@@ -294,6 +293,9 @@ export default function DashboardEmployee() {
           </Col>
         </Row>
       </Container>
+
+      <StatementDownloadModal show={showStatement} onClose={() => setShowStatement(false)} />
+      <TransactionDrawer transactionId={detailId} onClose={() => setDetailId(null)} />
     </motion.div>
   );
 }
\ No newline at end of file
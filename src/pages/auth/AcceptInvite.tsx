@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Spinner } from 'react-bootstrap';
+import { useAppDispatch } from '../../hooks';
+import { acceptInvite } from '../../features/auth/authSlice';
+import { confirmPasswordSchema, passwordSchema } from '../../features/auth/validation';
+import { fetchInvitationPreview } from '../../services/invitations';
+import type { InvitationPreview } from '../../services/types';
+import { toApiError } from '../../utils/apiError';
+import { getDashboardPath } from '../../utils/routes';
+
+const schema = yup.object({
+  name: yup.string().required('Name is required'),
+  password: passwordSchema,
+  confirmPassword: confirmPasswordSchema(),
+});
+
+type AcceptInviteFormData = yup.InferType<typeof schema>;
+
+export default function AcceptInvite() {
+  const { code = '' } = useParams<{ code: string }>();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<AcceptInviteFormData>({ resolver: yupResolver(schema) });
+
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showPassword, setShowPassword] = useState(false);
+
+  useEffect(() => {
+    fetchInvitationPreview(code)
+      .then(setInvitation)
+      .catch((error) => setLoadError(toApiError(error, 'This invitation is invalid or has expired').message));
+  }, [code]);
+
+  const onSubmit = async (data: AcceptInviteFormData) => {
+    const resultAction = await dispatch(acceptInvite({ code, name: data.name, password: data.password }));
+
+    if (acceptInvite.fulfilled.match(resultAction)) {
+      toast.success('Welcome aboard! Your account is ready.');
+      navigate(getDashboardPath(resultAction.payload.user.role), { replace: true });
+    } else if (acceptInvite.rejected.match(resultAction)) {
+      toast.error(resultAction.payload || 'Could not accept invitation');
+    }
+  };
+
+  return (
+    <div className="container d-flex justify-content-center align-items-center min-vh-100 bg-light">
+      <div className="card shadow p-4" style={{ maxWidth: 500, width: '100%' }}>
+        <h3 className="text-center mb-4">Accept Invitation</h3>
+
+        {loadError ? (
+          <div className="text-center">
+            <div className="alert alert-danger">{loadError}</div>
+            <Link to="/login">Back to login</Link>
+          </div>
+        ) : !invitation ? (
+          <div className="text-center py-4">
+            <Spinner animation="border" variant="primary" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} noValidate>
+            {/* Email and role come from the invitation and cannot be changed */}
+            <div className="mb-3">
+              <label className="form-label">Email</label>
+              <input type="email" className="form-control" value={invitation.email} readOnly disabled />
+            </div>
+
+            <div className="mb-3">
+              <label className="form-label">Role</label>
+              <input
+                type="text"
+                className="form-control"
+                value={invitation.role === 'ADMIN' ? 'Admin' : 'Employee'}
+                readOnly
+                disabled
+              />
+            </div>
+
+            <div className="mb-3">
+              <label className="form-label">Name</label>
+              <input
+                {...register('name')}
+                type="text"
+                className={`form-control ${errors.name ? 'is-invalid' : ''}`}
+                placeholder="John Doe"
+              />
+              {errors.name && <div className="invalid-feedback">{errors.name.message}</div>}
+            </div>
+
+            <div className="mb-3">
+              <label className="form-label">Password</label>
+              <div className="input-group">
+                <input
+                  {...register('password')}
+                  type={showPassword ? 'text' : 'password'}
+                  className={`form-control ${errors.password ? 'is-invalid' : ''}`}
+                  placeholder="••••••••"
+                />
+                <button
+                  type="button"
+                  className="btn btn-outline-secondary"
+                  onClick={() => setShowPassword((prev) => !prev)}
+                  tabIndex={-1}
+                >
+                  {showPassword ? 'Hide' : 'Show'}
+                </button>
+              </div>
+              {errors.password && <div className="invalid-feedback d-block">{errors.password.message}</div>}
+              <div className="form-text">At least 6 characters.</div>
+            </div>
+
+            <div className="mb-4">
+              <label className="form-label">Confirm password</label>
+              <input
+                {...register('confirmPassword')}
+                type={showPassword ? 'text' : 'password'}
+                className={`form-control ${errors.confirmPassword ? 'is-invalid' : ''}`}
+                placeholder="••••••••"
+              />
+              {errors.confirmPassword && <div className="invalid-feedback">{errors.confirmPassword.message}</div>}
+            </div>
+
+            <button type="submit" className="btn btn-primary w-100" disabled={isSubmitting}>
+              {isSubmitting ? 'Creating account...' : 'Create Account'}
+            </button>
+            <div className="text-center text-muted small mt-3">
+              Invitation expires {new Date(invitation.expiresAt).toLocaleString()}
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { Link } from 'react-router-dom';
+import { useAppDispatch } from '../../hooks';
+import { requestPasswordReset } from '../../features/auth/authSlice';
+
+const schema = yup.object({
+  email: yup.string().email('Invalid email').required('Email is required'),
+});
+
+type ForgotPasswordFormData = yup.InferType<typeof schema>;
+
+export default function ForgotPassword() {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({ resolver: yupResolver(schema) });
+
+  const dispatch = useAppDispatch();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    const resultAction = await dispatch(requestPasswordReset(data));
+
+    if (requestPasswordReset.fulfilled.match(resultAction)) {
+      setSentTo(data.email);
+    } else if (requestPasswordReset.rejected.match(resultAction)) {
+      toast.error(resultAction.payload || 'Could not send reset link');
+    }
+  };
+
+  return (
+    <div className="container mt-5" style={{ maxWidth: 500 }}>
+      <h3 className="text-center mb-4">Forgot Password</h3>
+      <div className="card p-4 shadow-sm">
+        {sentTo ? (
+          <>
+            <p className="mb-3">
+              If an account exists for <strong>{sentTo}</strong>, a password reset link is on its way.
+              The link expires after a short time, so use it soon.
+            </p>
+            <Link to="/login" className="btn btn-outline-primary w-100">
+              Back to login
+            </Link>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} noValidate>
+            <p className="text-muted">Enter your account email and we will send you a link to reset your password.</p>
+            <div className="mb-3">
+              <label className="form-label">Email</label>
+              <input
+                type="email"
+                className={`form-control ${errors.email ? 'is-invalid' : ''}`}
+                placeholder="you@example.com"
+                {...register('email')}
+              />
+              <div className="invalid-feedback">{errors.email?.message}</div>
+            </div>
+
+            <button type="submit" className="btn btn-primary w-100" disabled={isSubmitting}>
+              {isSubmitting ? 'Sending...' : 'Send reset link'}
+            </button>
+            <div className="text-center mt-3">
+              <Link to="/login">Back to login</Link>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,11 @@ import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { toast } from 'react-toastify';
-import { useNavigate } from 'react-router-dom';
-import { loginUser } from '../../features/auth/authSlice';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { isTwoFactorChallenge, loginUser, User, verifyTwoFactor } from '../../features/auth/authSlice';
+import { verificationCodeSchema } from '../../features/auth/validation';
 import { useAppDispatch } from '../../hooks';
+import { getDashboardPath, getSafeReturnTo } from '../../utils/routes';
 
 const schema = yup.object({
   email: yup.string().email('Invalid email').required('Email is required'),
@@ -17,6 +19,68 @@ type FormData = {
   password: string;
 };
 
+const twoFactorSchema = yup.object({
+  code: verificationCodeSchema,
+});
+
+type TwoFactorFormData = yup.InferType<typeof twoFactorSchema>;
+
+// Second login step for accounts with two-factor authentication enabled
+function TwoFactorStep({
+  challengeToken,
+  onVerified,
+  onCancel,
+}: {
+  challengeToken: string;
+  onVerified: (user: User) => void;
+  onCancel: () => void;
+}) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<TwoFactorFormData>({ resolver: yupResolver(twoFactorSchema) });
+  const dispatch = useAppDispatch();
+
+  const onSubmit = async ({ code }: TwoFactorFormData) => {
+    const resultAction = await dispatch(verifyTwoFactor({ challengeToken, code }));
+
+    if (verifyTwoFactor.fulfilled.match(resultAction)) {
+      onVerified(resultAction.payload.user);
+    } else if (verifyTwoFactor.rejected.match(resultAction)) {
+      toast.error(resultAction.payload || 'Invalid verification code');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="card p-4 shadow-sm" noValidate>
+      <p className="text-muted">
+        Enter the 6-digit code from your authenticator app. If you have lost access to it, use one of your backup codes.
+      </p>
+      <div className="mb-3">
+        <label className="form-label">Verification code</label>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          autoFocus
+          className={`form-control ${errors.code ? 'is-invalid' : ''}`}
+          placeholder="123456"
+          {...register('code')}
+        />
+        <div className="invalid-feedback">{errors.code?.message}</div>
+      </div>
+
+      <button type="submit" className="btn btn-primary w-100" disabled={isSubmitting}>
+        {isSubmitting ? 'Verifying...' : 'Verify'}
+      </button>
+      <button type="button" className="btn btn-link w-100 mt-2" onClick={onCancel}>
+        Back to login
+      </button>
+    </form>
+  );
+}
+
 export default function Login() {
   const {
     register,
@@ -26,41 +90,55 @@ export default function Login() {
 
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'));
 
   const [showPassword, setShowPassword] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
 
-  const onSubmit = async (data: FormData) => {
-    console.log('Submitting login:', data);
+  const completeLogin = (user: User) => {
+    toast.success('Login successful!');
+    navigate(returnTo || getDashboardPath(user.role), { replace: true });
+  };
 
+  const onSubmit = async (data: FormData) => {
     if (isSubmitting) return;
     setIsSubmitting(true);
 
     try {
       const resultAction = await dispatch(loginUser(data));
-      console.log('Thunk result:', resultAction);
-
-   if (loginUser.fulfilled.match(resultAction)) {
-  const { user, accessToken } = resultAction.payload;
-  console.log('Login successful. User info:', user);
-  console.log('Access token:', accessToken);
-
-  // Save to localStorage
-  localStorage.setItem('user', JSON.stringify(user));
-  localStorage.setItem('token', accessToken);
 
-  toast.success('Login successful!');
-  navigate('/dashboard/admin');
-}
+      if (loginUser.fulfilled.match(resultAction)) {
+        if (isTwoFactorChallenge(resultAction.payload)) {
+          setChallengeToken(resultAction.payload.challengeToken);
+          return;
+        }
 
-    } catch (error) {
-      console.error('Error during login:', error);
+        completeLogin(resultAction.payload.user);
+      } else if (loginUser.rejected.match(resultAction)) {
+        toast.error(resultAction.payload || 'Login failed');
+      }
+    } catch {
       toast.error('Something went wrong');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  if (challengeToken) {
+    return (
+      <div className="container mt-5" style={{ maxWidth: 500 }}>
+        <h3 className="text-center mb-4">Two-Factor Verification</h3>
+        <TwoFactorStep
+          challengeToken={challengeToken}
+          onVerified={completeLogin}
+          onCancel={() => setChallengeToken(null)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="container mt-5" style={{ maxWidth: 500 }}>
       <h3 className="text-center mb-4">Login</h3>
@@ -95,6 +173,9 @@ export default function Login() {
             </button>
           </div>
           <div className="invalid-feedback d-block">{errors.password?.message}</div>
+          <div className="text-end mt-1">
+            <Link to="/forgot-password" className="small">Forgot password?</Link>
+          </div>
         </div>
 
         <button type="submit" className="btn btn-primary w-100" disabled={isSubmitting}>
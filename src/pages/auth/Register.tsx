@@ -3,15 +3,16 @@ import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { useState } from 'react';
 import { toast } from 'react-toastify';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAppDispatch } from '../../hooks';
 import { registerUser, AuthResponse } from '../../features/auth/authSlice';
+import { passwordSchema } from '../../features/auth/validation';
+import { getConfig } from '../../config';
 
 const schema = yup.object({
   name: yup.string().required('Name is required'),
   email: yup.string().email('Invalid email').required('Email is required'),
-  password: yup.string().min(6, 'Password must be at least 6 characters').required('Password is required'),
-  role: yup.string().oneOf(['ADMIN', 'EMPLOYEE'], 'Please select a valid role').required('Role is required'),
+  password: passwordSchema,
 });
 
 type RegisterFormData = yup.InferType<typeof schema>;
@@ -62,10 +63,28 @@ const onSubmit = async (data: RegisterFormData) => {
 };
 
 
+  if (!getConfig().publicRegistration) {
+    return (
+      <div className="container d-flex justify-content-center align-items-center min-vh-100 bg-light">
+        <div className="card shadow p-4 text-center" style={{ maxWidth: 500, width: '100%' }}>
+          <h3 className="mb-3">Registration is by invitation</h3>
+          <p className="text-muted">
+            Accounts are created by an administrator. Use the invitation link sent to your email, or ask your
+            school administrator for one.
+          </p>
+          <Link to="/login" className="btn btn-outline-primary">
+            Back to login
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="container d-flex justify-content-center align-items-center min-vh-100 bg-light">
       <div className="card shadow p-4" style={{ maxWidth: 500, width: '100%' }}>
-        <h3 className="text-center mb-4">Register</h3>
+        <h3 className="text-center mb-1">Register</h3>
+        <p className="text-center text-muted small mb-4">Creates an employee account. Admins join by invitation.</p>
         <form onSubmit={handleSubmit(onSubmit)} noValidate>
           {/* Name */}
           <div className="mb-3">
@@ -92,7 +111,7 @@ const onSubmit = async (data: RegisterFormData) => {
           </div>
 
           {/* Password */}
-          <div className="mb-3">
+          <div className="mb-4">
             <label className="form-label">Password</label>
             <div className="input-group">
               <input
@@ -113,20 +132,6 @@ const onSubmit = async (data: RegisterFormData) => {
             {errors.password && <div className="invalid-feedback d-block">{errors.password.message}</div>}
           </div>
 
-          {/* Role */}
-          <div className="mb-4">
-            <label className="form-label">Role</label>
-            <select
-              {...register('role')}
-              className={`form-select ${errors.role ? 'is-invalid' : ''}`}
-            >
-              <option value="">Select role</option>
-              <option value="ADMIN">Admin</option>
-              <option value="EMPLOYEE">Employee</option>
-            </select>
-            {errors.role && <div className="invalid-feedback">{errors.role.message}</div>}
-          </div>
-
           <button type="submit" className="btn btn-primary w-100">
             Create Account
           </button>
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAppDispatch } from '../../hooks';
+import { resetPassword } from '../../features/auth/authSlice';
+import { confirmPasswordSchema, passwordSchema } from '../../features/auth/validation';
+
+const schema = yup.object({
+  password: passwordSchema,
+  confirmPassword: confirmPasswordSchema(),
+});
+
+type ResetPasswordFormData = yup.InferType<typeof schema>;
+
+export default function ResetPassword() {
+  const { token = '' } = useParams<{ token: string }>();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({ resolver: yupResolver(schema) });
+
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const [showPassword, setShowPassword] = useState(false);
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    const resultAction = await dispatch(resetPassword({ token, password: data.password }));
+
+    if (resetPassword.fulfilled.match(resultAction)) {
+      toast.success('Password updated. Please log in with your new password.');
+      navigate('/login', { replace: true });
+    } else if (resetPassword.rejected.match(resultAction)) {
+      toast.error(resultAction.payload || 'Password reset failed');
+    }
+  };
+
+  return (
+    <div className="container mt-5" style={{ maxWidth: 500 }}>
+      <h3 className="text-center mb-4">Choose a New Password</h3>
+      <form onSubmit={handleSubmit(onSubmit)} className="card p-4 shadow-sm" noValidate>
+        <div className="mb-3">
+          <label className="form-label">New password</label>
+          <div className="input-group">
+            <input
+              type={showPassword ? 'text' : 'password'}
+              className={`form-control ${errors.password ? 'is-invalid' : ''}`}
+              placeholder="••••••••"
+              {...register('password')}
+            />
+            <button
+              type="button"
+              className="btn btn-outline-secondary"
+              onClick={() => setShowPassword((prev) => !prev)}
+              tabIndex={-1}
+            >
+              {showPassword ? 'Hide' : 'Show'}
+            </button>
+          </div>
+          <div className="invalid-feedback d-block">{errors.password?.message}</div>
+          <div className="form-text">At least 6 characters.</div>
+        </div>
+
+        <div className="mb-3">
+          <label className="form-label">Confirm new password</label>
+          <input
+            type={showPassword ? 'text' : 'password'}
+            className={`form-control ${errors.confirmPassword ? 'is-invalid' : ''}`}
+            placeholder="••••••••"
+            {...register('confirmPassword')}
+          />
+          <div className="invalid-feedback">{errors.confirmPassword?.message}</div>
+        </div>
+
+        <button type="submit" className="btn btn-primary w-100" disabled={isSubmitting || !token}>
+          {isSubmitting ? 'Saving...' : 'Reset password'}
+        </button>
+        <div className="text-center mt-3">
+          <Link to="/forgot-password">Request a new link</Link>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Badge, Button, Card, Col, Container, Modal, Row, Spinner, Table } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import { FaCoins, FaGift } from 'react-icons/fa';
+import { useApiErrorToast, useAppDispatch, useAppSelector } from '../../hooks';
+import { refreshProfile } from '../../features/auth/authSlice';
+import {
+  useGetMyRedemptionsQuery,
+  useGetRewardsQuery,
+  useRedeemRewardMutation,
+} from '../../features/rewards/rewardsApi';
+import type { RedemptionStatus, Reward } from '../../services/types';
+import { createIdempotencyKey } from '../../utils/idempotency';
+import { notifyApiError } from '../../utils/apiError';
+
+const REDEMPTION_STATUS_VARIANTS: Record<RedemptionStatus, string> = {
+  PENDING: 'warning',
+  DELIVERED: 'success',
+  REFUNDED: 'secondary',
+};
+
+export default function Rewards() {
+  const { user } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
+
+  const rewardsQuery = useGetRewardsQuery({});
+  const redemptionsQuery = useGetMyRedemptionsQuery({ page: 1, limit: 20 });
+  const [redeemReward, redemption] = useRedeemRewardMutation();
+  useApiErrorToast(rewardsQuery.error, 'Failed to fetch rewards');
+  useApiErrorToast(redemptionsQuery.error, 'Failed to fetch redemptions');
+
+  const rewards = rewardsQuery.data ?? [];
+  const redemptions = redemptionsQuery.data?.items ?? [];
+  const balance = user?.staffPoints ?? 0;
+
+  // staffPoints is cached at login; show the current balance before anything is redeemed
+  useEffect(() => {
+    dispatch(refreshProfile());
+  }, [dispatch]);
+
+  const [selected, setSelected] = useState<Reward | null>(null);
+  // One key per confirmation dialog, so a double click or retry redeems once
+  const idempotencyKey = useRef(createIdempotencyKey());
+
+  const openRedeem = (reward: Reward) => {
+    idempotencyKey.current = createIdempotencyKey();
+    setSelected(reward);
+  };
+
+  const confirmRedeem = () => {
+    if (!selected || redemption.isLoading) return;
+
+    redeemReward({ id: selected.id, idempotencyKey: idempotencyKey.current })
+      .unwrap()
+      .then(() => {
+        toast.success(`Redeemed ${selected.name}. An admin will arrange delivery.`);
+        setSelected(null);
+        // Refresh the balance shown across the app
+        dispatch(refreshProfile());
+      })
+      .catch((error) => notifyApiError(error, 'Failed to redeem reward'));
+  };
+
+  return (
+    <Container className="py-5">
+      <div className="d-flex align-items-center mb-4">
+        <h2 className="mb-0">
+          <FaGift className="me-2 text-primary" />
+          Rewards
+        </h2>
+        <Badge bg="primary" className="ms-auto fs-6">
+          <FaCoins className="me-1" />
+          {balance.toLocaleString()} pts available
+        </Badge>
+      </div>
+
+      {rewardsQuery.isLoading ? (
+        <div className="text-center py-5">
+          <Spinner animation="border" variant="primary" />
+        </div>
+      ) : rewards.length === 0 ? (
+        <p className="text-muted">No rewards are available right now.</p>
+      ) : (
+        <Row className="g-4 mb-5">
+          {rewards.map((reward) => {
+            const outOfStock = reward.stock !== null && reward.stock <= 0;
+            const affordable = reward.cost <= balance;
+            return (
+              <Col key={reward.id} sm={6} lg={4}>
+                <Card className="shadow-sm h-100">
+                  {reward.imageUrl && (
+                    <Card.Img variant="top" src={reward.imageUrl} alt={reward.name} style={{ height: 180, objectFit: 'cover' }} />
+                  )}
+                  <Card.Body className="d-flex flex-column">
+                    <Card.Title>{reward.name}</Card.Title>
+                    {reward.description && <Card.Text className="text-muted small">{reward.description}</Card.Text>}
+                    <div className="mt-auto d-flex align-items-center">
+                      <strong className="text-primary">{reward.cost.toLocaleString()} pts</strong>
+                      {reward.stock !== null && (
+                        <small className={`ms-2 ${outOfStock ? 'text-danger' : 'text-muted'}`}>
+                          {outOfStock ? 'Out of stock' : `${reward.stock} left`}
+                        </small>
+                      )}
+                      <Button
+                        size="sm"
+                        className="ms-auto"
+                        onClick={() => openRedeem(reward)}
+                        disabled={outOfStock || !affordable}
+                        title={!affordable ? 'Not enough points' : undefined}
+                      >
+                        Redeem
+                      </Button>
+                    </div>
+                  </Card.Body>
+                </Card>
+              </Col>
+            );
+          })}
+        </Row>
+      )}
+
+      <Card className="shadow-sm">
+        <Card.Header className="fw-semibold">Your redemptions</Card.Header>
+        <Card.Body className="p-0">
+          {redemptions.length === 0 ? (
+            <p className="text-muted p-3 mb-0">You have not redeemed any rewards yet.</p>
+          ) : (
+            <Table hover className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Reward</th>
+                  <th>Cost</th>
+                  <th>Redeemed</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {redemptions.map((r) => (
+                  <tr key={r.id}>
+                    <td>{r.rewardName}</td>
+                    <td className="text-danger">-{r.cost.toLocaleString()} pts</td>
+                    <td>{new Date(r.createdAt).toLocaleDateString()}</td>
+                    <td>
+                      <Badge bg={REDEMPTION_STATUS_VARIANTS[r.status]}>{r.status}</Badge>
+                      {r.status === 'REFUNDED' && <small className="text-muted ms-2">Points returned</small>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+
+      <Modal show={!!selected} onHide={redemption.isLoading ? undefined : () => setSelected(null)} centered>
+        <Modal.Header closeButton={!redemption.isLoading}>
+          <Modal.Title>Redeem {selected?.name}?</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <p className="mb-1">
+            This will deduct <strong>{selected?.cost.toLocaleString()} pts</strong> from your balance.
+          </p>
+          <p className="text-muted mb-0">
+            Balance after redemption: {(balance - (selected?.cost ?? 0)).toLocaleString()} pts
+          </p>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline-secondary" onClick={() => setSelected(null)} disabled={redemption.isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={confirmRedeem} disabled={redemption.isLoading}>
+            {redemption.isLoading ? <Spinner size="sm" animation="border" /> : 'Redeem'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+}
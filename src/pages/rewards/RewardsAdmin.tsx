@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { Badge, Button, ButtonGroup, Card, Container, Image, Modal, Spinner, Table } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import { FaGift, FaPlus, FaTruck } from 'react-icons/fa';
+import { useApiErrorToast } from '../../hooks';
+import {
+  useDeleteRewardMutation,
+  useGetRedemptionsQuery,
+  useGetRewardsQuery,
+  useMarkRedemptionDeliveredMutation,
+  useRefundRedemptionMutation,
+} from '../../features/rewards/rewardsApi';
+import RewardFormModal from '../../components/admin/RewardFormModal';
+import type { Redemption, RedemptionStatus, Reward } from '../../services/types';
+import { notifyApiError } from '../../utils/apiError';
+
+const REDEMPTION_STATUS_VARIANTS: Record<RedemptionStatus, string> = {
+  PENDING: 'warning',
+  DELIVERED: 'success',
+  REFUNDED: 'secondary',
+};
+
+const QUEUE_FILTERS: RedemptionStatus[] = ['PENDING', 'DELIVERED', 'REFUNDED'];
+
+export default function RewardsAdmin() {
+  const rewardsQuery = useGetRewardsQuery({ includeInactive: true });
+  const [queueStatus, setQueueStatus] = useState<RedemptionStatus>('PENDING');
+  const redemptionsQuery = useGetRedemptionsQuery({ status: queueStatus, page: 1, limit: 50 });
+  const [deleteReward, deletion] = useDeleteRewardMutation();
+  const [markDelivered, delivery] = useMarkRedemptionDeliveredMutation();
+  const [refundRedemption, refund] = useRefundRedemptionMutation();
+  useApiErrorToast(rewardsQuery.error, 'Failed to fetch rewards');
+  useApiErrorToast(redemptionsQuery.error, 'Failed to fetch redemptions');
+
+  const rewards = rewardsQuery.data ?? [];
+  const redemptions = redemptionsQuery.data?.items ?? [];
+
+  const [editing, setEditing] = useState<{ reward: Reward | null } | null>(null);
+  const [refunding, setRefunding] = useState<Redemption | null>(null);
+  const [deleting, setDeleting] = useState<Reward | null>(null);
+
+  const confirmDelete = () => {
+    if (!deleting) return;
+
+    deleteReward(deleting.id)
+      .unwrap()
+      .then(() => {
+        toast.success(`${deleting.name} removed from the catalog`);
+        setDeleting(null);
+      })
+      .catch((error) => notifyApiError(error, 'Failed to delete reward'));
+  };
+
+  const deliver = (r: Redemption) => {
+    markDelivered(r.id)
+      .unwrap()
+      .then(() => toast.success(`${r.rewardName} marked as delivered to ${r.userName || `User #${r.userId}`}`))
+      .catch((error) => notifyApiError(error, 'Failed to update redemption'));
+  };
+
+  const confirmRefund = () => {
+    if (!refunding) return;
+
+    refundRedemption(refunding.id)
+      .unwrap()
+      .then(() => {
+        toast.success(`Refunded ${refunding.cost.toLocaleString()} pts to ${refunding.userName || `User #${refunding.userId}`}`);
+        setRefunding(null);
+      })
+      .catch((error) => notifyApiError(error, 'Failed to refund redemption'));
+  };
+
+  return (
+    <Container className="py-5">
+      <h2 className="mb-4">
+        <FaGift className="me-2 text-primary" />
+        Rewards Catalog
+      </h2>
+
+      <Card className="shadow-sm mb-4">
+        <Card.Header className="fw-semibold d-flex align-items-center">
+          <span>Catalog</span>
+          <Button size="sm" className="ms-auto" onClick={() => setEditing({ reward: null })}>
+            <FaPlus className="me-1" />
+            New reward
+          </Button>
+        </Card.Header>
+        <Card.Body className="p-0">
+          {rewardsQuery.isLoading ? (
+            <div className="text-center py-4">
+              <Spinner animation="border" variant="primary" />
+            </div>
+          ) : rewards.length === 0 ? (
+            <p className="text-muted p-3 mb-0">The catalog is empty. Add a reward for staff to redeem.</p>
+          ) : (
+            <Table hover className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>Name</th>
+                  <th>Cost</th>
+                  <th>Stock</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rewards.map((reward) => (
+                  <tr key={reward.id}>
+                    <td style={{ width: 64 }}>
+                      {reward.imageUrl && <Image src={reward.imageUrl} alt="" rounded style={{ width: 48, height: 48, objectFit: 'cover' }} />}
+                    </td>
+                    <td>
+                      <div className="fw-medium">{reward.name}</div>
+                      {reward.description && <small className="text-muted">{reward.description}</small>}
+                    </td>
+                    <td>{reward.cost.toLocaleString()} pts</td>
+                    <td>{reward.stock === null ? 'Unlimited' : reward.stock}</td>
+                    <td>
+                      <Badge bg={reward.active ? 'success' : 'secondary'}>{reward.active ? 'Active' : 'Hidden'}</Badge>
+                    </td>
+                    <td className="text-end text-nowrap">
+                      <Button size="sm" variant="outline-primary" className="me-2" onClick={() => setEditing({ reward })}>
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="outline-danger" onClick={() => setDeleting(reward)}>
+                        Delete
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+
+      <Card className="shadow-sm">
+        <Card.Header className="fw-semibold d-flex align-items-center">
+          <FaTruck className="me-2" />
+          <span>Fulfillment Queue</span>
+          <ButtonGroup size="sm" className="ms-auto">
+            {QUEUE_FILTERS.map((status) => (
+              <Button
+                key={status}
+                variant={status === queueStatus ? 'primary' : 'outline-primary'}
+                onClick={() => setQueueStatus(status)}
+              >
+                {status.charAt(0) + status.slice(1).toLowerCase()}
+              </Button>
+            ))}
+          </ButtonGroup>
+        </Card.Header>
+        <Card.Body className="p-0">
+          {redemptionsQuery.isFetching ? (
+            <div className="text-center py-4">
+              <Spinner animation="border" variant="primary" />
+            </div>
+          ) : redemptions.length === 0 ? (
+            <p className="text-muted p-3 mb-0">No {queueStatus.toLowerCase()} redemptions.</p>
+          ) : (
+            <Table hover className="align-middle mb-0">
+              <thead>
+                <tr>
+                  <th>Employee</th>
+                  <th>Reward</th>
+                  <th>Cost</th>
+                  <th>Redeemed</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {redemptions.map((r) => (
+                  <tr key={r.id}>
+                    <td>{r.userName || `User #${r.userId}`}</td>
+                    <td>{r.rewardName}</td>
+                    <td>{r.cost.toLocaleString()} pts</td>
+                    <td>{new Date(r.createdAt).toLocaleString()}</td>
+                    <td>
+                      <Badge bg={REDEMPTION_STATUS_VARIANTS[r.status]}>{r.status}</Badge>
+                      {r.fulfilledByName && <small className="text-muted ms-2">by {r.fulfilledByName}</small>}
+                    </td>
+                    <td className="text-end text-nowrap">
+                      {r.status === 'PENDING' && (
+                        <>
+                          <Button size="sm" variant="success" className="me-2" onClick={() => deliver(r)} disabled={delivery.isLoading}>
+                            Mark delivered
+                          </Button>
+                          <Button size="sm" variant="outline-danger" onClick={() => setRefunding(r)}>
+                            Refund
+                          </Button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </Card.Body>
+      </Card>
+
+      <RewardFormModal show={!!editing} reward={editing?.reward ?? null} onClose={() => setEditing(null)} />
+
+      <Modal show={!!deleting} onHide={deletion.isLoading ? undefined : () => setDeleting(null)} centered>
+        <Modal.Header closeButton={!deletion.isLoading}>
+          <Modal.Title>Delete reward?</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          {deleting?.name} will be removed from the catalog. To take it off sale for now, edit it and turn off “Visible to employees” instead.
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline-secondary" onClick={() => setDeleting(null)} disabled={deletion.isLoading}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={confirmDelete} disabled={deletion.isLoading}>
+            {deletion.isLoading ? <Spinner size="sm" animation="border" /> : 'Delete'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+
+      <Modal show={!!refunding} onHide={refund.isLoading ? undefined : () => setRefunding(null)} centered>
+        <Modal.Header closeButton={!refund.isLoading}>
+          <Modal.Title>Refund redemption?</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          {refunding?.cost.toLocaleString()} pts will be returned to {refunding?.userName || 'the employee'} and{' '}
+          {refunding?.rewardName} goes back into stock.
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline-secondary" onClick={() => setRefunding(null)} disabled={refund.isLoading}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={confirmRefund} disabled={refund.isLoading}>
+            {refund.isLoading ? <Spinner size="sm" animation="border" /> : 'Refund'}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </Container>
+  );
+}
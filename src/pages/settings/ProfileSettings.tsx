@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Button, Card, Container, Form, Spinner } from 'react-bootstrap';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { FaUserCog } from 'react-icons/fa';
+import { useAppDispatch, useAppSelector } from '../../hooks';
+import { changePassword, updateProfile } from '../../features/auth/authSlice';
+import { confirmPasswordSchema, passwordSchema } from '../../features/auth/validation';
+
+const profileSchema = yup.object({
+  name: yup.string().trim().required('Name is required'),
+  email: yup.string().email('Invalid email').required('Email is required'),
+});
+
+const passwordFormSchema = yup.object({
+  currentPassword: yup.string().required('Current password is required'),
+  newPassword: passwordSchema.notOneOf([yup.ref('currentPassword')], 'New password must be different'),
+  confirmPassword: confirmPasswordSchema('newPassword'),
+});
+
+type ProfileFormData = yup.InferType<typeof profileSchema>;
+type PasswordFormData = yup.InferType<typeof passwordFormSchema>;
+
+export default function ProfileSettings() {
+  const { user } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
+  const [showPasswords, setShowPasswords] = useState(false);
+
+  const profileForm = useForm<ProfileFormData>({
+    resolver: yupResolver(profileSchema),
+    values: { name: user?.name || '', email: user?.email || '' },
+  });
+
+  const passwordForm = useForm<PasswordFormData>({ resolver: yupResolver(passwordFormSchema) });
+
+  const onProfileSubmit = async (data: ProfileFormData) => {
+    const resultAction = await dispatch(updateProfile(data));
+
+    if (updateProfile.fulfilled.match(resultAction)) {
+      toast.success('Profile updated');
+    } else if (updateProfile.rejected.match(resultAction)) {
+      toast.error(resultAction.payload || 'Failed to update profile');
+    }
+  };
+
+  const onPasswordSubmit = async ({ currentPassword, newPassword }: PasswordFormData) => {
+    const resultAction = await dispatch(changePassword({ currentPassword, newPassword }));
+
+    if (changePassword.fulfilled.match(resultAction)) {
+      toast.success('Password changed');
+      passwordForm.reset();
+    } else if (changePassword.rejected.match(resultAction)) {
+      toast.error(resultAction.payload || 'Failed to change password');
+    }
+  };
+
+  const profileErrors = profileForm.formState.errors;
+  const passwordErrors = passwordForm.formState.errors;
+
+  return (
+    <Container className="py-5" style={{ maxWidth: 720 }}>
+      <h2 className="mb-4">
+        <FaUserCog className="me-2 text-primary" />
+        Profile Settings
+      </h2>
+
+      <Card className="shadow-sm mb-4">
+        <Card.Header className="fw-semibold">Profile</Card.Header>
+        <Card.Body>
+          <Form onSubmit={profileForm.handleSubmit(onProfileSubmit)} noValidate>
+            <Form.Group className="mb-3">
+              <Form.Label>Name</Form.Label>
+              <Form.Control
+                type="text"
+                {...profileForm.register('name')}
+                className={profileErrors.name ? 'is-invalid' : ''}
+              />
+              {profileErrors.name && <div className="invalid-feedback">{profileErrors.name.message}</div>}
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>Email</Form.Label>
+              <Form.Control
+                type="email"
+                {...profileForm.register('email')}
+                className={profileErrors.email ? 'is-invalid' : ''}
+              />
+              {profileErrors.email && <div className="invalid-feedback">{profileErrors.email.message}</div>}
+            </Form.Group>
+            <Button type="submit" disabled={profileForm.formState.isSubmitting || !profileForm.formState.isDirty}>
+              {profileForm.formState.isSubmitting ? <Spinner size="sm" animation="border" /> : 'Save changes'}
+            </Button>
+          </Form>
+        </Card.Body>
+      </Card>
+
+      <Card className="shadow-sm">
+        <Card.Header className="fw-semibold">Change password</Card.Header>
+        <Card.Body>
+          <Form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)} noValidate>
+            <Form.Group className="mb-3">
+              <Form.Label>Current password</Form.Label>
+              <Form.Control
+                type={showPasswords ? 'text' : 'password'}
+                autoComplete="current-password"
+                {...passwordForm.register('currentPassword')}
+                className={passwordErrors.currentPassword ? 'is-invalid' : ''}
+              />
+              {passwordErrors.currentPassword && (
+                <div className="invalid-feedback">{passwordErrors.currentPassword.message}</div>
+              )}
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>New password</Form.Label>
+              <Form.Control
+                type={showPasswords ? 'text' : 'password'}
+                autoComplete="new-password"
+                {...passwordForm.register('newPassword')}
+                className={passwordErrors.newPassword ? 'is-invalid' : ''}
+              />
+              {passwordErrors.newPassword && (
+                <div className="invalid-feedback">{passwordErrors.newPassword.message}</div>
+              )}
+              <Form.Text>At least 6 characters.</Form.Text>
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>Confirm new password</Form.Label>
+              <Form.Control
+                type={showPasswords ? 'text' : 'password'}
+                autoComplete="new-password"
+                {...passwordForm.register('confirmPassword')}
+                className={passwordErrors.confirmPassword ? 'is-invalid' : ''}
+              />
+              {passwordErrors.confirmPassword && (
+                <div className="invalid-feedback">{passwordErrors.confirmPassword.message}</div>
+              )}
+            </Form.Group>
+            <Form.Check
+              type="checkbox"
+              id="show-passwords"
+              label="Show passwords"
+              className="mb-3"
+              checked={showPasswords}
+              onChange={(e) => setShowPasswords(e.target.checked)}
+            />
+            <Button type="submit" disabled={passwordForm.formState.isSubmitting}>
+              {passwordForm.formState.isSubmitting ? <Spinner size="sm" animation="border" /> : 'Change password'}
+            </Button>
+          </Form>
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Alert, Button, Card, Col, Container, Form, Row, Spinner } from 'react-bootstrap';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { toast } from 'react-toastify';
+import { FaShieldAlt } from 'react-icons/fa';
+import { useAppDispatch, useAppSelector } from '../../hooks';
+import { refreshProfile } from '../../features/auth/authSlice';
+import { verificationCodeSchema } from '../../features/auth/validation';
+import {
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateBackupCodes,
+  startTwoFactorEnrollment,
+} from '../../services/twoFactor';
+import type { TwoFactorEnrollment } from '../../services/types';
+import { notifyApiError } from '../../utils/apiError';
+
+const schema = yup.object({
+  code: verificationCodeSchema,
+});
+
+type CodeFormData = yup.InferType<typeof schema>;
+
+type PendingAction = 'enable' | 'disable' | 'regenerate';
+
+function BackupCodesList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const download = () => {
+    const blob = new Blob([`StaffPoints backup codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'staffpoints-backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <>
+      <Alert variant="warning">
+        Store these backup codes somewhere safe. Each code works once and they will not be shown again.
+      </Alert>
+      <Row className="g-2 mb-3 font-monospace">
+        {codes.map((code) => (
+          <Col xs={6} md={4} key={code}>
+            <div className="border rounded p-2 text-center bg-white">{code}</div>
+          </Col>
+        ))}
+      </Row>
+      <div className="d-flex gap-2">
+        <Button variant="outline-primary" onClick={download}>
+          Download codes
+        </Button>
+        <Button variant="primary" onClick={onDone}>
+          I have saved them
+        </Button>
+      </div>
+    </>
+  );
+}
+
+export default function SecuritySettings() {
+  const { user } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
+
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<CodeFormData>({ resolver: yupResolver(schema) });
+
+  const enabled = !!user?.twoFactorEnabled;
+
+  const beginEnrollment = () => {
+    setStarting(true);
+    startTwoFactorEnrollment()
+      .then((result) => {
+        setEnrollment(result);
+        setPendingAction('enable');
+      })
+      .catch((error) => notifyApiError(error, 'Failed to start two-factor setup'))
+      .finally(() => setStarting(false));
+  };
+
+  const cancel = () => {
+    setEnrollment(null);
+    setPendingAction(null);
+    reset();
+  };
+
+  const onSubmit = async ({ code }: CodeFormData) => {
+    try {
+      if (pendingAction === 'enable') {
+        const result = await confirmTwoFactorEnrollment(code);
+        setEnrollment(null);
+        setBackupCodes(result.backupCodes);
+        toast.success('Two-factor authentication enabled');
+      } else if (pendingAction === 'regenerate') {
+        const result = await regenerateBackupCodes(code);
+        setBackupCodes(result.backupCodes);
+        toast.success('New backup codes generated');
+      } else if (pendingAction === 'disable') {
+        await disableTwoFactor(code);
+        toast.success('Two-factor authentication disabled');
+      }
+      setPendingAction(null);
+      reset();
+      dispatch(refreshProfile());
+    } catch (error) {
+      notifyApiError(error, 'Verification failed');
+    }
+  };
+
+  const codeForm = (submitLabel: string, variant = 'primary') => (
+    <Form onSubmit={handleSubmit(onSubmit)} noValidate className="mt-3" style={{ maxWidth: 360 }}>
+      <Form.Group className="mb-3">
+        <Form.Label>Verification code</Form.Label>
+        <Form.Control
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          {...register('code')}
+          className={errors.code ? 'is-invalid' : ''}
+        />
+        {errors.code && <div className="invalid-feedback">{errors.code.message}</div>}
+      </Form.Group>
+      <div className="d-flex gap-2">
+        <Button type="submit" variant={variant} disabled={isSubmitting}>
+          {isSubmitting ? <Spinner size="sm" animation="border" /> : submitLabel}
+        </Button>
+        <Button variant="link" onClick={cancel}>
+          Cancel
+        </Button>
+      </div>
+    </Form>
+  );
+
+  return (
+    <Container className="py-5" style={{ maxWidth: 720 }}>
+      <h2 className="mb-4">
+        <FaShieldAlt className="me-2 text-primary" />
+        Security
+      </h2>
+
+      <Card className="shadow-sm">
+        <Card.Header className="fw-semibold">Two-factor authentication</Card.Header>
+        <Card.Body>
+          {backupCodes ? (
+            <BackupCodesList codes={backupCodes} onDone={() => setBackupCodes(null)} />
+          ) : enrollment ? (
+            <>
+              <p>
+                Scan this QR code with an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password…),
+                then enter the 6-digit code it shows.
+              </p>
+              <div className="text-center mb-3">
+                <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" width={200} height={200} />
+              </div>
+              <p className="small text-muted mb-0">
+                Can't scan? Enter this key manually: <code>{enrollment.secret}</code>
+              </p>
+              {codeForm('Enable two-factor')}
+            </>
+          ) : enabled ? (
+            <>
+              <p className="mb-2">
+                Two-factor authentication is <strong className="text-success">on</strong>. You will be asked for a code
+                from your authenticator app each time you log in.
+              </p>
+              {pendingAction ? (
+                <>
+                  <p className="small text-muted mb-0">
+                    {pendingAction === 'disable'
+                      ? 'Enter a current code to turn two-factor authentication off.'
+                      : 'Enter a current code to replace your backup codes. Old codes stop working.'}
+                  </p>
+                  {pendingAction === 'disable'
+                    ? codeForm('Disable two-factor', 'danger')
+                    : codeForm('Regenerate codes')}
+                </>
+              ) : (
+                <div className="d-flex gap-2 mt-3">
+                  <Button variant="outline-primary" onClick={() => setPendingAction('regenerate')}>
+                    Regenerate backup codes
+                  </Button>
+                  <Button variant="outline-danger" onClick={() => setPendingAction('disable')}>
+                    Disable
+                  </Button>
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <p>
+                Protect your admin account with a second step at login. Admin accounts can move StaffPoints, so
+                two-factor authentication is strongly recommended.
+              </p>
+              <Button variant="primary" onClick={beginEnrollment} disabled={starting}>
+                {starting ? <Spinner size="sm" animation="border" /> : 'Set up two-factor authentication'}
+              </Button>
+            </>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
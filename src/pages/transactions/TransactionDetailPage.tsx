@@ -0,0 +1,36 @@
+import React from 'react';
+import { Alert, Card, Container } from 'react-bootstrap';
+import { Link, useParams } from 'react-router-dom';
+import { FaReceipt } from 'react-icons/fa';
+import { useAppSelector } from '../../hooks';
+import TransactionDetail from '../../components/TransactionDetail';
+import { getDashboardPath } from '../../utils/routes';
+
+export default function TransactionDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAppSelector((state) => state.auth);
+  const transactionId = Number(id);
+
+  return (
+    <Container className="py-5" style={{ maxWidth: 720 }}>
+      <Link to={getDashboardPath(user?.role)} className="small">
+        ← Back to dashboard
+      </Link>
+      <h2 className="my-3">
+        <FaReceipt className="me-2 text-primary" />
+        Transaction #{id}
+      </h2>
+      <Card className="shadow-sm">
+        <Card.Body>
+          {Number.isInteger(transactionId) && transactionId > 0 ? (
+            <TransactionDetail id={transactionId} />
+          ) : (
+            <Alert variant="warning" className="mb-0">
+              This transaction does not exist or you do not have access to it.
+            </Alert>
+          )}
+        </Card.Body>
+      </Card>
+    </Container>
+  );
+}
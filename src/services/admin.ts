@@ -0,0 +1,19 @@
+import api from '../utils/axios';
+import { request } from './request';
+import type { AdminBalance } from './types';
+
+export const fetchAdminBalance = async (): Promise<AdminBalance> => {
+  const data = await request(
+    () => api.get<Partial<AdminBalance>>('/api/admin/balance'),
+    'Failed to fetch balance'
+  );
+  return {
+    availablePoints: Math.floor(Number(data.availablePoints) || 0),
+    allocatedPoints: Math.floor(Number(data.allocatedPoints) || 0),
+    totalTransactions: data.totalTransactions || 0,
+  };
+};
+
+export const initializeAdminPoints = async (): Promise<void> => {
+  await request(() => api.post('/api/admin/points/initialize', {}), 'Failed to initialize admin points');
+};
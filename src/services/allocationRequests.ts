@@ -0,0 +1,47 @@
+import api from '../utils/axios';
+import { DEFAULT_PAGE_SIZE, request, toPaginated } from './request';
+import type {
+  AllocationRequest,
+  AllocationRequestStatus,
+  AllocationResult,
+  PageParams,
+  Paginated,
+  RejectAllocationRequestPayload,
+} from './types';
+
+interface AllocationRequestsResponse {
+  requests: AllocationRequest[];
+  total: number;
+}
+
+export interface AllocationRequestParams extends PageParams {
+  status?: AllocationRequestStatus;
+}
+
+export const fetchAllocationRequests = async ({
+  status,
+  page = 1,
+  limit = DEFAULT_PAGE_SIZE,
+}: AllocationRequestParams = {}): Promise<Paginated<AllocationRequest>> => {
+  const data = await request(
+    () => api.get<AllocationRequestsResponse>('/api/allocation-requests', { params: { status, page, limit } }),
+    'Failed to fetch allocation requests'
+  );
+  return toPaginated(data.requests, data.total, { page, limit });
+};
+
+// Approving executes the allocation, so it carries an idempotency key like any other transfer
+export const approveAllocationRequest = (id: number, idempotencyKey: string): Promise<AllocationResult> =>
+  request(
+    () =>
+      api.post<AllocationResult>(`/api/allocation-requests/${id}/approve`, null, {
+        headers: { 'Idempotency-Key': idempotencyKey },
+      }),
+    'Failed to approve request'
+  );
+
+export const rejectAllocationRequest = (id: number, payload: RejectAllocationRequestPayload): Promise<AllocationRequest> =>
+  request(
+    () => api.post<AllocationRequest>(`/api/allocation-requests/${id}/reject`, payload),
+    'Failed to reject request'
+  );
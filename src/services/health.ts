@@ -0,0 +1,9 @@
+import api from '../utils/axios';
+import { request } from './request';
+
+export interface HealthStatus {
+  status: string;
+}
+
+export const checkHealth = (): Promise<HealthStatus> =>
+  request(() => api.get<HealthStatus>('/health'), 'The server is not responding');
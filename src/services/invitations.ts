@@ -0,0 +1,33 @@
+import api from '../utils/axios';
+import { DEFAULT_PAGE_SIZE, request, toPaginated } from './request';
+import type { CreateInvitationPayload, Invitation, InvitationPreview, PageParams, Paginated } from './types';
+
+interface InvitationsResponse {
+  invitations: Invitation[];
+  total: number;
+}
+
+export const fetchInvitations = async ({ page = 1, limit = DEFAULT_PAGE_SIZE }: PageParams = {}): Promise<Paginated<Invitation>> => {
+  const data = await request(
+    () => api.get<InvitationsResponse>('/api/invitations', { params: { page, limit } }),
+    'Failed to fetch invitations'
+  );
+  return toPaginated(data.invitations, data.total, { page, limit });
+};
+
+export const createInvitation = (payload: CreateInvitationPayload): Promise<Invitation> =>
+  request(() => api.post<Invitation>('/api/invitations', payload), 'Failed to send invitation');
+
+export const revokeInvitation = async (id: number): Promise<void> => {
+  await request(() => api.delete(`/api/invitations/${id}`), 'Failed to revoke invitation');
+};
+
+// Public: looked up by the invitee before they have an account
+export const fetchInvitationPreview = (code: string): Promise<InvitationPreview> =>
+  request(
+    () => api.get<InvitationPreview>(`/auth/invitations/${encodeURIComponent(code)}`),
+    'This invitation is invalid or has expired'
+  );
+
+export const getInvitationLink = (code: string) =>
+  `${window.location.origin}${process.env.PUBLIC_URL}/accept-invite/${encodeURIComponent(code)}`;
@@ -0,0 +1,23 @@
+import api from '../utils/axios';
+import { request } from './request';
+import type { AllocationResult, Colleague, KudosLimits, SendKudosPayload } from './types';
+
+export const fetchColleagues = async (): Promise<Colleague[]> => {
+  const data = await request(
+    () => api.get<{ users: Colleague[] }>('/api/users/colleagues'),
+    'Failed to fetch colleagues'
+  );
+  return data.users || [];
+};
+
+export const fetchKudosLimits = (): Promise<KudosLimits> =>
+  request(() => api.get<KudosLimits>('/api/kudos/limits'), 'Failed to fetch kudos limits');
+
+export const sendKudos = (payload: SendKudosPayload, idempotencyKey: string): Promise<AllocationResult> =>
+  request(
+    () =>
+      api.post<AllocationResult>('/api/kudos', payload, {
+        headers: { 'Idempotency-Key': idempotencyKey },
+      }),
+    'Failed to send kudos'
+  );
@@ -0,0 +1,25 @@
+import { toApiError } from '../utils/apiError';
+import type { PageParams, Paginated } from './types';
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+// Runs an api call and rethrows any failure as an ApiError
+export const request = async <T>(call: () => Promise<{ data: T }>, fallbackMessage: string): Promise<T> => {
+  try {
+    const res = await call();
+    return res.data;
+  } catch (err) {
+    throw toApiError(err, fallbackMessage);
+  }
+};
+
+export const toPaginated = <T>(items: T[] | undefined, total: number | undefined, params: PageParams): Paginated<T> => {
+  const limit = params.limit ?? DEFAULT_PAGE_SIZE;
+  const safeTotal = Number(total) || 0;
+  return {
+    items: items || [],
+    total: safeTotal,
+    page: params.page ?? 1,
+    totalPages: Math.max(1, Math.ceil(safeTotal / limit)),
+  };
+};
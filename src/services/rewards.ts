@@ -0,0 +1,78 @@
+import api from '../utils/axios';
+import { DEFAULT_PAGE_SIZE, request, toPaginated } from './request';
+import type { PageParams, Paginated, Redemption, RedemptionStatus, Reward, RewardPayload } from './types';
+
+interface RedemptionsResponse {
+  redemptions: Redemption[];
+  total: number;
+}
+
+export interface RedemptionParams extends PageParams {
+  status?: RedemptionStatus;
+}
+
+// Rewards carry an image, so they are sent as multipart form data.
+// null clears a field (e.g. unlimited stock) and goes out as an empty value; undefined leaves it unchanged
+const toFormData = ({ image, ...fields }: RewardPayload) => {
+  const form = new FormData();
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined) form.append(key, value === null ? '' : String(value));
+  });
+  if (image) form.append('image', image);
+  return form;
+};
+
+// The api client defaults to JSON, which would make axios serialize the FormData
+const multipart = { headers: { 'Content-Type': 'multipart/form-data' } };
+
+// Employees only see active rewards; admins can ask for the whole catalog
+export const fetchRewards = async ({ includeInactive = false } = {}): Promise<Reward[]> => {
+  const data = await request(
+    () => api.get<{ rewards: Reward[] }>('/api/rewards', { params: { includeInactive } }),
+    'Failed to fetch rewards'
+  );
+  return data.rewards || [];
+};
+
+export const createReward = (payload: RewardPayload): Promise<Reward> =>
+  request(() => api.post<Reward>('/api/rewards', toFormData(payload), multipart), 'Failed to create reward');
+
+export const updateReward = (id: number, payload: RewardPayload): Promise<Reward> =>
+  request(() => api.put<Reward>(`/api/rewards/${id}`, toFormData(payload), multipart), 'Failed to update reward');
+
+export const deleteReward = async (id: number): Promise<void> => {
+  await request(() => api.delete(`/api/rewards/${id}`), 'Failed to delete reward');
+};
+
+// Deducts the cost from the caller's balance; the key keeps a retried redemption from charging twice
+export const redeemReward = (id: number, idempotencyKey: string): Promise<Redemption> =>
+  request(
+    () =>
+      api.post<Redemption>(`/api/rewards/${id}/redeem`, null, {
+        headers: { 'Idempotency-Key': idempotencyKey },
+      }),
+    'Failed to redeem reward'
+  );
+
+const fetchRedemptionPage = async (url: string, { status, page = 1, limit = DEFAULT_PAGE_SIZE }: RedemptionParams) => {
+  const data = await request(
+    () => api.get<RedemptionsResponse>(url, { params: { status, page, limit } }),
+    'Failed to fetch redemptions'
+  );
+  return toPaginated(data.redemptions, data.total, { page, limit });
+};
+
+// Fulfillment queue (admin)
+export const fetchRedemptions = (params: RedemptionParams = {}): Promise<Paginated<Redemption>> =>
+  fetchRedemptionPage('/api/redemptions', params);
+
+// Redemptions made by the logged-in user
+export const fetchMyRedemptions = (params: RedemptionParams = {}): Promise<Paginated<Redemption>> =>
+  fetchRedemptionPage('/api/redemptions/me', params);
+
+export const markRedemptionDelivered = (id: number): Promise<Redemption> =>
+  request(() => api.post<Redemption>(`/api/redemptions/${id}/deliver`), 'Failed to update redemption');
+
+// Returns the points to the employee with a compensating transaction
+export const refundRedemption = (id: number): Promise<Redemption> =>
+  request(() => api.post<Redemption>(`/api/redemptions/${id}/refund`), 'Failed to refund redemption');
@@ -0,0 +1,56 @@
+import api from '../utils/axios';
+import { DEFAULT_PAGE_SIZE, request, toPaginated } from './request';
+import type {
+  AllocationSchedule,
+  AllocationSchedulePayload,
+  PageParams,
+  Paginated,
+  ScheduleExecution,
+} from './types';
+
+interface SchedulesResponse {
+  schedules: AllocationSchedule[];
+  total: number;
+}
+
+interface ExecutionsResponse {
+  executions: ScheduleExecution[];
+  total: number;
+}
+
+export const fetchSchedules = async ({ page = 1, limit = DEFAULT_PAGE_SIZE }: PageParams = {}): Promise<
+  Paginated<AllocationSchedule>
+> => {
+  const data = await request(
+    () => api.get<SchedulesResponse>('/api/allocation-schedules', { params: { page, limit } }),
+    'Failed to fetch schedules'
+  );
+  return toPaginated(data.schedules, data.total, { page, limit });
+};
+
+export const createSchedule = (payload: AllocationSchedulePayload): Promise<AllocationSchedule> =>
+  request(() => api.post<AllocationSchedule>('/api/allocation-schedules', payload), 'Failed to create schedule');
+
+export const updateSchedule = (id: number, payload: AllocationSchedulePayload): Promise<AllocationSchedule> =>
+  request(() => api.put<AllocationSchedule>(`/api/allocation-schedules/${id}`, payload), 'Failed to update schedule');
+
+export const cancelSchedule = async (id: number): Promise<void> => {
+  await request(() => api.delete(`/api/allocation-schedules/${id}`), 'Failed to cancel schedule');
+};
+
+export const pauseSchedule = (id: number): Promise<AllocationSchedule> =>
+  request(() => api.post<AllocationSchedule>(`/api/allocation-schedules/${id}/pause`), 'Failed to pause schedule');
+
+export const resumeSchedule = (id: number): Promise<AllocationSchedule> =>
+  request(() => api.post<AllocationSchedule>(`/api/allocation-schedules/${id}/resume`), 'Failed to resume schedule');
+
+export const fetchScheduleExecutions = async (
+  id: number,
+  { page = 1, limit = DEFAULT_PAGE_SIZE }: PageParams = {}
+): Promise<Paginated<ScheduleExecution>> => {
+  const data = await request(
+    () => api.get<ExecutionsResponse>(`/api/allocation-schedules/${id}/executions`, { params: { page, limit } }),
+    'Failed to fetch schedule history'
+  );
+  return toPaginated(data.executions, data.total, { page, limit });
+};
@@ -0,0 +1,28 @@
+import api from '../utils/axios';
+import { request } from './request';
+import type { AllocatePointsPayload, AllocationResult, BulkAllocationItem, BulkAllocationResult } from './types';
+
+// The idempotency key makes repeats of the same allocation (double clicks, retries) safe
+export const allocatePoints = (payload: AllocatePointsPayload, idempotencyKey: string): Promise<AllocationResult> =>
+  request(
+    () =>
+      api.post<AllocationResult>('/api/staff-points/allocate', payload, {
+        headers: { 'Idempotency-Key': idempotencyKey },
+      }),
+    'Failed to allocate points'
+  );
+
+// Each row carries its own idempotency key; the batch key guards the request as a whole
+export const allocatePointsBatch = (
+  items: BulkAllocationItem[],
+  idempotencyKey: string
+): Promise<BulkAllocationResult> =>
+  request(
+    () =>
+      api.post<BulkAllocationResult>(
+        '/api/staff-points/allocate/batch',
+        { items },
+        { headers: { 'Idempotency-Key': idempotencyKey } }
+      ),
+    'Failed to submit bulk allocation'
+  );
@@ -0,0 +1,41 @@
+import { fetchAllTransactions } from './transactions';
+import type { Paginated, Transaction, TransactionQuery } from './types';
+
+const tx = (id: number): Transaction => ({
+  id,
+  senderId: 1,
+  recipientId: 2,
+  amount: 10,
+  timestamp: '2024-01-01T00:00:00.000Z',
+});
+
+// Serves `total` transactions in pages of the requested size
+const pagedLedger = (total: number, served = total) =>
+  jest.fn(async ({ page = 1, limit = 10 }: TransactionQuery): Promise<Paginated<Transaction>> => {
+    const start = (page - 1) * limit;
+    const items = Array.from({ length: Math.max(0, Math.min(limit, served - start)) }, (_, i) => tx(start + i + 1));
+    return { items, total, page, totalPages: Math.max(1, Math.ceil(total / limit)) };
+  });
+
+describe('fetchAllTransactions', () => {
+  it('loads every page and keeps the filters', async () => {
+    const loadPage = pagedLedger(1200);
+
+    const items = await fetchAllTransactions(loadPage, { sender: 'jane' });
+
+    expect(items).toHaveLength(1200);
+    expect(loadPage).toHaveBeenCalledTimes(3);
+    expect(loadPage).toHaveBeenLastCalledWith({ sender: 'jane', page: 3, limit: 500 });
+  });
+
+  it('rejects a ledger larger than the cap instead of truncating it', async () => {
+    const loadPage = pagedLedger(20001);
+
+    await expect(fetchAllTransactions(loadPage)).rejects.toThrow('20,001 transactions match');
+    expect(loadPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects when fewer rows arrive than the reported total', async () => {
+    await expect(fetchAllTransactions(pagedLedger(600, 550))).rejects.toThrow('The ledger changed');
+  });
+});
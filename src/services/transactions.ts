@@ -0,0 +1,78 @@
+import api from '../utils/axios';
+import { ApiError } from '../utils/apiError';
+import { DEFAULT_PAGE_SIZE, request, toPaginated } from './request';
+import type { AllocationResult, Paginated, ReverseTransactionPayload, Transaction, TransactionQuery } from './types';
+
+interface TransactionsResponse {
+  transactions: Transaction[];
+  total: number;
+}
+
+const withDisplayNames = (tx: Transaction): Transaction => ({
+  ...tx,
+  senderName: tx.senderName || 'System',
+  recipientName: tx.recipientName || 'Unknown',
+});
+
+const fetchPage = async (url: string, { page = 1, limit = DEFAULT_PAGE_SIZE, ...filters }: TransactionQuery) => {
+  const data = await request(
+    () => api.get<TransactionsResponse>(url, { params: { page, limit, ...filters } }),
+    'Failed to fetch transactions'
+  );
+  return toPaginated(data.transactions?.map(withDisplayNames), data.total, { page, limit });
+};
+
+// All transactions (admin ledger)
+export const fetchTransactions = (params: TransactionQuery = {}): Promise<Paginated<Transaction>> =>
+  fetchPage('/api/transactions', params);
+
+// Transactions sent or received by the logged-in user
+export const fetchMyTransactions = (params: TransactionQuery = {}): Promise<Paginated<Transaction>> =>
+  fetchPage('/api/transactions/user', params);
+
+const FULL_LEDGER_PAGE_SIZE = 500;
+// Guards against runaway downloads; a term's ledger is far below this
+const MAX_LEDGER_ROWS = 20000;
+
+// Collects every page of a (filtered) ledger query, for exports and statements.
+// Rejects rather than returning a partial ledger, since callers treat the result as complete.
+export const fetchAllTransactions = async (
+  loadPage: (query: TransactionQuery) => Promise<Paginated<Transaction>>,
+  query: TransactionQuery = {}
+): Promise<Transaction[]> => {
+  const items: Transaction[] = [];
+  let total = 0;
+  for (let page = 1; ; page++) {
+    const result = await loadPage({ ...query, page, limit: FULL_LEDGER_PAGE_SIZE });
+    total = result.total;
+    if (total > MAX_LEDGER_ROWS) {
+      throw new ApiError(
+        `${total.toLocaleString()} transactions match, more than the ${MAX_LEDGER_ROWS.toLocaleString()} that can be loaded at once. Narrow the filters and try again.`
+      );
+    }
+    items.push(...result.items);
+    if (page >= result.totalPages || result.items.length === 0) break;
+  }
+  if (items.length < total) {
+    throw new ApiError('The ledger changed while it was being loaded. Please try again.');
+  }
+  return items;
+};
+
+// Employees can only load transactions they sent or received; the backend answers 404 otherwise
+export const fetchTransaction = async (id: number): Promise<Transaction> =>
+  withDisplayNames(await request(() => api.get<Transaction>(`/api/transactions/${id}`), 'Failed to fetch transaction'));
+
+// Creates a compensating REVERSAL transaction linked to the original
+export const reverseTransaction = (
+  id: number,
+  payload: ReverseTransactionPayload,
+  idempotencyKey: string
+): Promise<AllocationResult> =>
+  request(
+    () =>
+      api.post<AllocationResult>(`/api/transactions/${id}/reverse`, payload, {
+        headers: { 'Idempotency-Key': idempotencyKey },
+      }),
+    'Failed to reverse transaction'
+  );
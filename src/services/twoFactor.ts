@@ -0,0 +1,17 @@
+import api from '../utils/axios';
+import { request } from './request';
+import type { BackupCodes, TwoFactorEnrollment } from './types';
+
+// Creates a pending TOTP secret; it only takes effect once confirmed with a valid code
+export const startTwoFactorEnrollment = (): Promise<TwoFactorEnrollment> =>
+  request(() => api.post<TwoFactorEnrollment>('/auth/2fa/setup', {}), 'Failed to start two-factor setup');
+
+export const confirmTwoFactorEnrollment = (code: string): Promise<BackupCodes> =>
+  request(() => api.post<BackupCodes>('/auth/2fa/enable', { code }), 'Invalid verification code');
+
+export const disableTwoFactor = async (code: string): Promise<void> => {
+  await request(() => api.post('/auth/2fa/disable', { code }), 'Failed to disable two-factor authentication');
+};
+
+export const regenerateBackupCodes = (code: string): Promise<BackupCodes> =>
+  request(() => api.post<BackupCodes>('/auth/2fa/backup-codes', { code }), 'Failed to regenerate backup codes');
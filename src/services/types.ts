@@ -0,0 +1,281 @@
+// Shared response types for the backend API
+
+export type Role = 'ADMIN' | 'EMPLOYEE';
+
+export interface StaffMember {
+  id: number;
+  email: string;
+  name: string;
+  role: Role;
+  staffPoints: number | null;
+  lastLogin?: string;
+}
+
+export type TransactionType = 'ALLOCATION' | 'KUDOS' | 'REVERSAL' | 'REDEMPTION';
+
+export interface Transaction {
+  id: number;
+  type?: TransactionType;
+  senderId: number;
+  recipientId: number;
+  amount: number;
+  timestamp: string;
+  senderName?: string;
+  recipientName?: string;
+  note?: string | null;
+  // Admin who performed the action; differs from the sender for reversals, approvals and schedules
+  initiatedById?: number | null;
+  initiatedByName?: string | null;
+  // Set on a transaction that has been undone, pointing at its compensating REVERSAL
+  reversedById?: number | null;
+  // Set on a REVERSAL, pointing at the transaction it undoes
+  reversalOfId?: number | null;
+  reversalReason?: string | null;
+}
+
+export interface AdminBalance {
+  availablePoints: number;
+  allocatedPoints: number;
+  totalTransactions: number;
+}
+
+export interface PageParams {
+  page?: number;
+  limit?: number;
+}
+
+export type TransactionSortField = 'timestamp' | 'amount' | 'sender' | 'recipient';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Ledger filters; names match the backend query parameters. Dates are YYYY-MM-DD, inclusive.
+export interface TransactionFilters {
+  sender?: string;
+  recipient?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  from?: string;
+  to?: string;
+  // Free-text search in the note
+  q?: string;
+  sort?: TransactionSortField;
+  order?: SortOrder;
+}
+
+export type TransactionQuery = PageParams & TransactionFilters;
+
+export type UserSortField = 'name' | 'staffPoints' | 'lastLogin';
+
+// Staff directory filters; `search` matches name or email on the backend
+export interface UserFilters {
+  search?: string;
+  role?: Role;
+  sort?: UserSortField;
+  order?: SortOrder;
+}
+
+export type UserQuery = PageParams & UserFilters;
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface AllocatePointsPayload {
+  recipientId: number;
+  amount: number;
+  note?: string;
+}
+
+export interface AllocationResult {
+  message?: string;
+  transaction?: Transaction;
+  // Returned instead of a transaction when the amount needs a second admin's approval
+  approvalRequest?: AllocationRequest;
+}
+
+export type AllocationRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// An allocation held back by the maker-checker policy
+export interface AllocationRequest {
+  id: number;
+  recipientId: number;
+  recipientName?: string;
+  amount: number;
+  note?: string;
+  status: AllocationRequestStatus;
+  requestedById: number;
+  requestedByName?: string;
+  createdAt: string;
+  decidedById?: number | null;
+  decidedByName?: string | null;
+  decidedAt?: string | null;
+  rejectionReason?: string | null;
+  // The allocation created on approval
+  transactionId?: number | null;
+}
+
+export interface RejectAllocationRequestPayload {
+  reason: string;
+}
+
+export interface ReverseTransactionPayload {
+  reason: string;
+}
+
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED';
+
+export interface Invitation {
+  id: number;
+  email: string;
+  role: Role;
+  code: string;
+  status: InvitationStatus;
+  createdAt: string;
+  expiresAt: string;
+  invitedByName?: string;
+}
+
+// What an invitee sees before accepting
+export interface InvitationPreview {
+  email: string;
+  role: Role;
+  expiresAt: string;
+}
+
+export interface CreateInvitationPayload {
+  email: string;
+  role: Role;
+}
+
+export interface TwoFactorEnrollment {
+  // Image data URL of the otpauth:// QR code, rendered by the backend
+  qrCodeDataUrl: string;
+  // Base32 secret for manual entry into an authenticator app
+  secret: string;
+}
+
+export interface BackupCodes {
+  backupCodes: string[];
+}
+
+export interface BulkAllocationItem extends AllocatePointsPayload {
+  idempotencyKey: string;
+}
+
+export interface BulkAllocationRowResult {
+  idempotencyKey: string;
+  // Rows above the approval threshold are held for a second admin, like single transfers
+  status: 'SUCCESS' | 'PENDING_APPROVAL' | 'FAILED';
+  transactionId?: number;
+  approvalRequestId?: number;
+  error?: string;
+}
+
+export interface BulkAllocationResult {
+  results: BulkAllocationRowResult[];
+}
+
+// Minimal view of a co-worker, visible to employees
+export interface Colleague {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface KudosLimits {
+  period: 'WEEK' | 'MONTH';
+  maxPoints: number;
+  sentPoints: number;
+  // null when only the points cap applies
+  maxTransfers: number | null;
+  sentTransfers: number;
+  periodEndsAt: string;
+}
+
+export interface SendKudosPayload {
+  recipientId: number;
+  amount: number;
+  note: string;
+}
+
+export interface Reward {
+  id: number;
+  name: string;
+  description?: string;
+  cost: number;
+  // null when the reward has no stock limit
+  stock: number | null;
+  imageUrl?: string | null;
+  active: boolean;
+}
+
+export interface RewardPayload {
+  name: string;
+  description?: string;
+  cost: number;
+  stock: number | null;
+  active: boolean;
+  // New image to upload; omitted to keep the current one
+  image?: File | null;
+}
+
+export type RedemptionStatus = 'PENDING' | 'DELIVERED' | 'REFUNDED';
+
+export interface Redemption {
+  id: number;
+  rewardId: number;
+  rewardName: string;
+  cost: number;
+  userId: number;
+  userName?: string;
+  status: RedemptionStatus;
+  createdAt: string;
+  fulfilledAt?: string | null;
+  fulfilledByName?: string | null;
+  // The REDEMPTION transaction that deducted the points
+  transactionId?: number | null;
+}
+
+// TERM runs at the start of each school term, as configured on the backend
+export type ScheduleFrequency = 'ONCE' | 'WEEKLY' | 'MONTHLY' | 'TERM';
+
+export type ScheduleStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+
+export interface AllocationSchedule {
+  id: number;
+  recipientId: number;
+  recipientName?: string;
+  amount: number;
+  note?: string;
+  frequency: ScheduleFrequency;
+  // Calendar date, YYYY-MM-DD
+  startDate: string;
+  // Last date a recurring schedule may run; null runs until cancelled
+  endDate?: string | null;
+  // Timestamp; null once the schedule is paused, completed or cancelled
+  nextRunAt: string | null;
+  lastRunAt?: string | null;
+  status: ScheduleStatus;
+  createdByName?: string;
+}
+
+export interface AllocationSchedulePayload {
+  recipientId: number;
+  amount: number;
+  note?: string;
+  frequency: ScheduleFrequency;
+  startDate: string;
+  endDate?: string | null;
+}
+
+export interface ScheduleExecution {
+  id: number;
+  scheduleId: number;
+  runAt: string;
+  status: 'SUCCESS' | 'FAILED' | 'PENDING_APPROVAL';
+  transactionId?: number | null;
+  error?: string | null;
+}
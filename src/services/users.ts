@@ -0,0 +1,39 @@
+import api from '../utils/axios';
+import { ApiError } from '../utils/apiError';
+import { DEFAULT_PAGE_SIZE, request, toPaginated } from './request';
+import type { Paginated, StaffMember, UserQuery } from './types';
+
+const FULL_DIRECTORY_PAGE_SIZE = 500;
+
+interface UsersResponse {
+  users: StaffMember[];
+  total: number;
+}
+
+export const fetchUsers = async ({
+  page = 1,
+  limit = DEFAULT_PAGE_SIZE,
+  ...filters
+}: UserQuery = {}): Promise<Paginated<StaffMember>> => {
+  const data = await request(
+    () => api.get<UsersResponse>('/api/users', { params: { page, limit, ...filters } }),
+    'Failed to fetch users'
+  );
+  return toPaginated(data.users, data.total, { page, limit });
+};
+
+// The whole directory, page by page; rejects rather than returning part of it
+export const fetchAllUsers = async (): Promise<StaffMember[]> => {
+  const users: StaffMember[] = [];
+  let total = 0;
+  for (let page = 1; ; page++) {
+    const result = await fetchUsers({ page, limit: FULL_DIRECTORY_PAGE_SIZE });
+    total = result.total;
+    users.push(...result.items);
+    if (page >= result.totalPages || result.items.length === 0) break;
+  }
+  if (users.length < total) {
+    throw new ApiError('The staff directory changed while it was being loaded. Please try again.');
+  }
+  return users;
+};
@@ -1,10 +1,35 @@
 import { configureStore } from '@reduxjs/toolkit';
-import authReducer from '../features/auth/authSlice';
+import authReducer, { sessionExpired, tokenRefreshed } from '../features/auth/authSlice';
+import serverReducer, { slowRequestsChanged } from '../features/server/serverSlice';
+import transfersReducer from '../features/transfers/transfersSlice';
+import { apiCacheListener, apiSlice } from '../features/api/apiSlice';
+import { sessionSyncMiddleware, startSessionSync } from '../features/auth/sessionSync';
+import { configureNetworkStatus, configureSession } from '../utils/axios';
 
 export const store = configureStore({
   reducer: {
     auth: authReducer,
+    server: serverReducer,
+    transfers: transfersReducer,
+    [apiSlice.reducerPath]: apiSlice.reducer,
   },
+  middleware: (getDefaultMiddleware) =>
+    getDefaultMiddleware()
+      .prepend(sessionSyncMiddleware.middleware, apiCacheListener.middleware)
+      .concat(apiSlice.middleware),
+});
+
+configureNetworkStatus({
+  onSlowRequestsChange: (slow) => store.dispatch(slowRequestsChanged(slow)),
+});
+
+// Mirror logins, logouts and profile refreshes from other tabs
+startSessionSync(store.dispatch);
+
+// Let the api client report refreshed tokens and expired sessions
+configureSession({
+  onTokenRefreshed: (accessToken) => store.dispatch(tokenRefreshed(accessToken)),
+  onSessionExpired: () => store.dispatch(sessionExpired()),
 });
 
 // ✅ Export RootState and AppDispatch types
@@ -0,0 +1,59 @@
+import { isAxiosError } from 'axios';
+import { toast } from 'react-toastify';
+
+// Normalized error thrown by every call in src/services
+export class ApiError extends Error {
+  status: number | null;
+  data: unknown;
+
+  constructor(message: string, status: number | null = null, data: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// Plain-object form of ApiError, safe to keep in the Redux store (RTK Query errors)
+export interface SerializedApiError {
+  status: number | null;
+  message: string;
+}
+
+const isSerializedApiError = (error: unknown): error is SerializedApiError =>
+  typeof error === 'object' && error !== null && 'status' in error && 'message' in error;
+
+export const toApiError = (error: unknown, fallbackMessage: string): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    const message = data?.message || data?.error || fallbackMessage;
+    return new ApiError(message, error.response?.status ?? null, data ?? null);
+  }
+
+  if (isSerializedApiError(error)) {
+    return new ApiError(error.message || fallbackMessage, error.status);
+  }
+
+  return new ApiError(fallbackMessage);
+};
+
+export const serializeApiError = (error: unknown, fallbackMessage: string): SerializedApiError => {
+  const { status, message } = toApiError(error, fallbackMessage);
+  return { status, message };
+};
+
+// Shows a toast for a failed request, replacing the per-dashboard handleAxiosError helpers
+export const notifyApiError = (error: unknown, fallbackMessage: string) => {
+  const apiError = toApiError(error, fallbackMessage);
+
+  // 401s are resolved by the api client's token refresh or session-expiry redirect
+  if (apiError.status === 401) return;
+
+  if (apiError.status === 400) {
+    toast.error(`Bad Request: ${apiError.message}`);
+  } else {
+    toast.error(apiError.message);
+  }
+};
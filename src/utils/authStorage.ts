@@ -0,0 +1,40 @@
+import type { User } from '../features/auth/authSlice';
+
+// localStorage keys shared by the auth slice and the api client
+const USER_KEY = 'user';
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export const getStoredUser = (): User | null => {
+  const stored = localStorage.getItem(USER_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
+
+export const getStoredToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const getStoredRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const saveTokens = (accessToken: string, refreshToken?: string | null) => {
+  localStorage.setItem(TOKEN_KEY, accessToken);
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const saveAuth = (user: User, accessToken: string, refreshToken?: string | null) => {
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  saveTokens(accessToken, refreshToken);
+};
+
+export const saveUser = (user: User) => {
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+};
+
+export const clearAuth = () => {
+  localStorage.removeItem(USER_KEY);
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
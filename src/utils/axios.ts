@@ -1,21 +1,176 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { getConfig } from '../config';
+import { clearAuth, getStoredRefreshToken, getStoredToken, saveTokens } from './authStorage';
+
+interface RefreshResponse {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+interface SessionHandlers {
+  onTokenRefreshed?: (accessToken: string) => void;
+  onSessionExpired?: () => void;
+}
+
+interface NetworkHandlers {
+  onSlowRequestsChange?: (slow: boolean) => void;
+}
+
+type RetriableConfig = InternalAxiosRequestConfig & {
+  _authRetried?: boolean;
+  _retryCount?: number;
+  _trackingId?: number;
+};
+
+// Requests that must never trigger a refresh attempt
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/2fa/verify'];
+
+// The backend sleeps when idle; the first request after that can take a while to answer
+const REQUEST_TIMEOUT_MS = 20000;
+const SLOW_REQUEST_MS = 3000;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRIABLE_STATUSES = [408, 429, 502, 503, 504];
 
 const api = axios.create({
-  baseURL: 'https://backend-g4qt.onrender.com',
+  baseURL: getConfig().apiUrl,
+  timeout: REQUEST_TIMEOUT_MS,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+let sessionHandlers: SessionHandlers = {};
+let networkHandlers: NetworkHandlers = {};
+
+// The store registers its callbacks here; importing the store directly would be circular
+export const configureSession = (handlers: SessionHandlers) => {
+  sessionHandlers = handlers;
+};
+
+export const configureNetworkStatus = (handlers: NetworkHandlers) => {
+  networkHandlers = handlers;
+};
+
+// Slow-request tracking. A request keeps its id across retries, so a retried
+// request stays "slow" until it finally settles.
+let nextTrackingId = 1;
+const slowTimers = new Map<number, number>();
+const slowRequests = new Set<number>();
+
+const setSlow = (id: number, slow: boolean) => {
+  const wasSlow = slowRequests.size > 0;
+  if (slow) slowRequests.add(id);
+  else slowRequests.delete(id);
+  const isSlow = slowRequests.size > 0;
+  if (wasSlow !== isSlow) networkHandlers.onSlowRequestsChange?.(isSlow);
+};
+
+const startTracking = (config: RetriableConfig) => {
+  if (config._trackingId) return;
+  const id = nextTrackingId++;
+  config._trackingId = id;
+  slowTimers.set(id, window.setTimeout(() => setSlow(id, true), SLOW_REQUEST_MS));
+};
+
+const stopTracking = (config?: RetriableConfig) => {
+  const id = config?._trackingId;
+  if (!id) return;
+  // A config replayed after a token refresh starts a new tracking entry
+  delete config._trackingId;
+  window.clearTimeout(slowTimers.get(id));
+  slowTimers.delete(id);
+  setSlow(id, false);
+};
+
+// Only requests that are safe to repeat: GETs, and writes carrying an idempotency key
+const isRetriable = (error: AxiosError, config: RetriableConfig) => {
+  const method = config.method?.toLowerCase();
+  const idempotent = method === 'get' || method === 'head' || !!config.headers?.['Idempotency-Key'];
+  const transient = !error.response || RETRIABLE_STATUSES.includes(error.response.status);
+  return idempotent && transient && (config._retryCount ?? 0) < MAX_RETRIES;
+};
+
+const wait = (ms: number) => new Promise((resolve) => window.setTimeout(resolve, ms));
+
 // Add interceptor to include JWT in requests
 api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('token');
+  const token = getStoredToken();
   if (token) {
     // Initialize headers if undefined
     config.headers = config.headers ?? {};
     config.headers.Authorization = `Bearer ${token}`;
   }
+  startTracking(config);
   return config;
 });
 
+// Shared by every request that fails with 401 while a refresh is in flight
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = async () => {
+  // Plain axios so the refresh call itself skips these interceptors
+  const res = await axios.post<RefreshResponse>(
+    '/auth/refresh',
+    { refreshToken: getStoredRefreshToken() },
+    { baseURL: api.defaults.baseURL, withCredentials: true }
+  );
+  saveTokens(res.data.accessToken, res.data.refreshToken);
+  api.defaults.headers.common['Authorization'] = `Bearer ${res.data.accessToken}`;
+  sessionHandlers.onTokenRefreshed?.(res.data.accessToken);
+  return res.data.accessToken;
+};
+
+// Retry transient failures with exponential backoff (1s, 2s, 4s plus jitter)
+api.interceptors.response.use(
+  (response) => {
+    stopTracking(response.config as RetriableConfig);
+    return response;
+  },
+  async (error: AxiosError) => {
+    const config = error.config as RetriableConfig | undefined;
+
+    if (!config || axios.isCancel(error) || !isRetriable(error, config)) {
+      stopTracking(config);
+      return Promise.reject(error);
+    }
+
+    config._retryCount = (config._retryCount ?? 0) + 1;
+    await wait(RETRY_BASE_DELAY_MS * 2 ** (config._retryCount - 1) + Math.random() * 250);
+    return api(config);
+  }
+);
+
+api.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const original = error.config as RetriableConfig | undefined;
+    const isAuthEndpoint = AUTH_ENDPOINTS.some((url) => original?.url?.startsWith(url));
+
+    if (error.response?.status !== 401 || !original || original._authRetried || isAuthEndpoint || !getStoredToken()) {
+      return Promise.reject(error);
+    }
+
+    original._authRetried = true;
+
+    try {
+      if (!refreshPromise) {
+        refreshPromise = refreshAccessToken().finally(() => {
+          refreshPromise = null;
+        });
+      }
+      const token = await refreshPromise;
+      original.headers.Authorization = `Bearer ${token}`;
+      return api(original);
+    } catch {
+      if (getStoredToken()) {
+        clearAuth();
+        delete api.defaults.headers.common['Authorization'];
+        sessionHandlers.onSessionExpired?.();
+      }
+      return Promise.reject(error);
+    }
+  }
+);
+
 export default api;
@@ -0,0 +1,60 @@
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('handles quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('"Doe, Jane","say ""hi""","two\nlines"')).toEqual([['Doe, Jane', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('accepts CRLF line endings and drops blank lines', () => {
+    expect(parseCsv('a,b\r\n\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('strips the byte order mark Excel writes', () => {
+    expect(parseCsv('\uFEFFrecipient,amount\n1,2')).toEqual([
+      ['recipient', 'amount'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c')).toEqual([['a', '', 'c']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('joins rows with CRLF and renders missing values as empty cells', () => {
+    expect(toCsv([['a', 1, null], [undefined, true, 'b']])).toBe('a,1,\r\n,true,b');
+  });
+
+  it('quotes cells with commas, quotes or line breaks', () => {
+    expect(toCsv([['Doe, Jane', 'say "hi"', 'two\nlines']])).toBe('"Doe, Jane","say ""hi""","two\nlines"');
+  });
+
+  it('neutralises text cells that a spreadsheet would run as a formula', () => {
+    expect(toCsv([['=HYPERLINK("http://evil")', '+1', '-2+3', '@SUM(A1)', '\tx', '\rx']])).toBe(
+      `"'=HYPERLINK(""http://evil"")",'+1,'-2+3,'@SUM(A1),'\tx,"'\rx"`
+    );
+  });
+
+  it('leaves numbers, including negative ones, as numbers', () => {
+    expect(toCsv([[-50, 0, 12.5]])).toBe('-50,0,12.5');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [
+      ['name', 'note'],
+      ['Doe, Jane', 'said "thanks"\non Friday'],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,3 @@
+// Local calendar date as YYYY-MM-DD, the format of <input type="date">
+export const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
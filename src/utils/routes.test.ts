@@ -0,0 +1,37 @@
+import { getDashboardPath, getSafeReturnTo, loginPathWithReturnTo } from './routes';
+
+describe('getSafeReturnTo', () => {
+  it('accepts same-origin paths with query and hash', () => {
+    expect(getSafeReturnTo('/dashboard/admin?page=2#pending-approvals')).toBe('/dashboard/admin?page=2#pending-approvals');
+    expect(getSafeReturnTo('/')).toBe('/');
+  });
+
+  it('rejects missing, relative and absolute URLs', () => {
+    [null, '', 'dashboard', 'https://evil.com', 'mailto:a@evil.com'].forEach((value) => {
+      expect(getSafeReturnTo(value)).toBeNull();
+    });
+  });
+
+  it('rejects protocol-relative URLs, including backslash forms browsers normalise to //', () => {
+    ['//evil.com', '/\\evil.com', '\\\\evil.com', '/foo\\bar'].forEach((value) => {
+      expect(getSafeReturnTo(value)).toBeNull();
+    });
+  });
+});
+
+describe('loginPathWithReturnTo', () => {
+  it('encodes the path so it survives as one parameter', () => {
+    const path = '/transactions/5?tab=notes&x=1';
+
+    expect(loginPathWithReturnTo(path)).toBe('/login?returnTo=%2Ftransactions%2F5%3Ftab%3Dnotes%26x%3D1');
+    expect(getSafeReturnTo(new URLSearchParams(loginPathWithReturnTo(path).split('?')[1]).get('returnTo'))).toBe(path);
+  });
+});
+
+describe('getDashboardPath', () => {
+  it('maps roles to their dashboards', () => {
+    expect(getDashboardPath('ADMIN')).toBe('/dashboard/admin');
+    expect(getDashboardPath('EMPLOYEE')).toBe('/dashboard/employee');
+    expect(getDashboardPath(null)).toBe('/');
+  });
+});
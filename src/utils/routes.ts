@@ -0,0 +1,19 @@
+import type { Role } from '../services/types';
+
+export const getDashboardPath = (role?: Role | null) => {
+  switch (role) {
+    case 'ADMIN':
+      return '/dashboard/admin';
+    case 'EMPLOYEE':
+      return '/dashboard/employee';
+    default:
+      return '/';
+  }
+};
+
+// Only same-origin absolute paths are accepted as ?returnTo= targets. Browsers treat `\` like `/`,
+// so `/\evil.com` would be protocol-relative too.
+export const getSafeReturnTo = (returnTo: string | null) =>
+  returnTo && returnTo.startsWith('/') && returnTo[1] !== '/' && !returnTo.includes('\\') ? returnTo : null;
+
+export const loginPathWithReturnTo = (path: string) => `/login?returnTo=${encodeURIComponent(path)}`;